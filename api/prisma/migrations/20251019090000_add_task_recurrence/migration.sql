@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "public"."tasks" ADD COLUMN     "occurrenceNumber" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "previousOccurrenceId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tasks_previousOccurrenceId_key" ON "public"."tasks"("previousOccurrenceId");
+
+-- AddForeignKey
+ALTER TABLE "public"."tasks" ADD CONSTRAINT "tasks_previousOccurrenceId_fkey" FOREIGN KEY ("previousOccurrenceId") REFERENCES "public"."tasks"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "public"."RotationStrategy" AS ENUM ('ROUND_ROBIN', 'LEAST_RECENTLY_COMPLETED');
+
+-- CreateTable
+CREATE TABLE "public"."task_rotations" (
+    "id" TEXT NOT NULL,
+    "strategy" "public"."RotationStrategy" NOT NULL DEFAULT 'ROUND_ROBIN',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "taskId" TEXT NOT NULL,
+
+    CONSTRAINT "task_rotations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."task_rotation_members" (
+    "id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "lastCompletedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "rotationId" TEXT NOT NULL,
+    "houseMemberId" TEXT NOT NULL,
+
+    CONSTRAINT "task_rotation_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "task_rotations_taskId_key" ON "public"."task_rotations"("taskId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "task_rotation_members_rotationId_houseMemberId_key" ON "public"."task_rotation_members"("rotationId", "houseMemberId");
+
+-- AddForeignKey
+ALTER TABLE "public"."task_rotations" ADD CONSTRAINT "task_rotations_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "public"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_rotation_members" ADD CONSTRAINT "task_rotation_members_rotationId_fkey" FOREIGN KEY ("rotationId") REFERENCES "public"."task_rotations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_rotation_members" ADD CONSTRAINT "task_rotation_members_houseMemberId_fkey" FOREIGN KEY ("houseMemberId") REFERENCES "public"."house_members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "public"."email_change_tokens" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "email_change_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_change_tokens_tokenHash_key" ON "public"."email_change_tokens"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "email_change_tokens_userId_idx" ON "public"."email_change_tokens"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."email_change_tokens" ADD CONSTRAINT "email_change_tokens_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
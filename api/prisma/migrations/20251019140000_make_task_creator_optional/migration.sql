@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."tasks" ALTER COLUMN "createdById" DROP NOT NULL;
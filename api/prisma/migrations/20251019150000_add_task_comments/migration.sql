@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "public"."task_comments" (
+    "id" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "editedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "authorId" TEXT,
+
+    CONSTRAINT "task_comments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."task_comment_mentions" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "commentId" TEXT NOT NULL,
+    "houseMemberId" TEXT NOT NULL,
+
+    CONSTRAINT "task_comment_mentions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "task_comments_taskId_createdAt_idx" ON "public"."task_comments"("taskId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "task_comment_mentions_commentId_houseMemberId_key" ON "public"."task_comment_mentions"("commentId", "houseMemberId");
+
+-- AddForeignKey
+ALTER TABLE "public"."task_comments" ADD CONSTRAINT "task_comments_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "public"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_comments" ADD CONSTRAINT "task_comments_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "public"."house_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_comment_mentions" ADD CONSTRAINT "task_comment_mentions_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "public"."task_comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_comment_mentions" ADD CONSTRAINT "task_comment_mentions_houseMemberId_fkey" FOREIGN KEY ("houseMemberId") REFERENCES "public"."house_members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "public"."tasks" ADD COLUMN     "autoCompleteChecklist" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "public"."task_checklist_items" (
+    "id" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "isDone" BOOLEAN NOT NULL DEFAULT false,
+    "checkedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "checkedById" TEXT,
+
+    CONSTRAINT "task_checklist_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "task_checklist_items_taskId_position_idx" ON "public"."task_checklist_items"("taskId", "position");
+
+-- AddForeignKey
+ALTER TABLE "public"."task_checklist_items" ADD CONSTRAINT "task_checklist_items_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "public"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_checklist_items" ADD CONSTRAINT "task_checklist_items_checkedById_fkey" FOREIGN KEY ("checkedById") REFERENCES "public"."house_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
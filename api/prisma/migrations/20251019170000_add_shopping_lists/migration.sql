@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "public"."shopping_lists" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "houseId" TEXT NOT NULL,
+
+    CONSTRAINT "shopping_lists_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."shopping_items" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION,
+    "unit" TEXT,
+    "store" TEXT,
+    "boughtAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "listId" TEXT NOT NULL,
+    "addedById" TEXT,
+    "boughtById" TEXT,
+
+    CONSTRAINT "shopping_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "shopping_lists_houseId_idx" ON "public"."shopping_lists"("houseId");
+
+-- CreateIndex
+CREATE INDEX "shopping_items_listId_idx" ON "public"."shopping_items"("listId");
+
+-- AddForeignKey
+ALTER TABLE "public"."shopping_lists" ADD CONSTRAINT "shopping_lists_houseId_fkey" FOREIGN KEY ("houseId") REFERENCES "public"."houses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."shopping_items" ADD CONSTRAINT "shopping_items_listId_fkey" FOREIGN KEY ("listId") REFERENCES "public"."shopping_lists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."shopping_items" ADD CONSTRAINT "shopping_items_addedById_fkey" FOREIGN KEY ("addedById") REFERENCES "public"."house_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."shopping_items" ADD CONSTRAINT "shopping_items_boughtById_fkey" FOREIGN KEY ("boughtById") REFERENCES "public"."house_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "public"."TaskEventType" AS ENUM ('CREATED', 'UPDATED', 'STATUS_CHANGED', 'ASSIGNEES_CHANGED', 'DELETED');
+
+-- CreateTable
+CREATE TABLE "public"."task_events" (
+    "id" TEXT NOT NULL,
+    "type" "public"."TaskEventType" NOT NULL,
+    "taskTitle" TEXT NOT NULL,
+    "changes" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "houseId" TEXT NOT NULL,
+    "taskId" TEXT,
+    "actorId" TEXT,
+
+    CONSTRAINT "task_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "task_events_houseId_createdAt_idx" ON "public"."task_events"("houseId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "task_events_taskId_createdAt_idx" ON "public"."task_events"("taskId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."task_events" ADD CONSTRAINT "task_events_houseId_fkey" FOREIGN KEY ("houseId") REFERENCES "public"."houses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_events" ADD CONSTRAINT "task_events_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "public"."tasks"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_events" ADD CONSTRAINT "task_events_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "public"."house_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "public"."HouseEventType" AS ENUM ('MEMBER_JOINED', 'MEMBER_LEFT', 'MEMBER_REMOVED', 'ROLE_CHANGED');
+
+-- CreateTable
+CREATE TABLE "public"."house_events" (
+    "id" TEXT NOT NULL,
+    "type" "public"."HouseEventType" NOT NULL,
+    "memberName" TEXT NOT NULL,
+    "changes" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "houseId" TEXT NOT NULL,
+    "memberId" TEXT,
+    "actorId" TEXT,
+    "invitationId" TEXT,
+
+    CONSTRAINT "house_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "house_events_houseId_createdAt_idx" ON "public"."house_events"("houseId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."house_events" ADD CONSTRAINT "house_events_houseId_fkey" FOREIGN KEY ("houseId") REFERENCES "public"."houses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."house_events" ADD CONSTRAINT "house_events_memberId_fkey" FOREIGN KEY ("memberId") REFERENCES "public"."house_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."house_events" ADD CONSTRAINT "house_events_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "public"."house_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."house_events" ADD CONSTRAINT "house_events_invitationId_fkey" FOREIGN KEY ("invitationId") REFERENCES "public"."invitations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "public"."NotificationType" AS ENUM ('TASK_ASSIGNED', 'TASK_COMPLETED', 'TASK_DUE');
+
+-- AlterTable
+ALTER TABLE "public"."house_members" ADD COLUMN     "notificationsEnabled" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "public"."push_tokens" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "platform" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "push_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."notification_preferences" (
+    "type" "public"."NotificationType" NOT NULL,
+    "enabled" BOOLEAN NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "notification_preferences_pkey" PRIMARY KEY ("userId","type")
+);
+
+-- CreateTable
+CREATE TABLE "public"."notification_settings" (
+    "quietHoursStart" TEXT,
+    "quietHoursEnd" TEXT,
+    "timeZone" TEXT NOT NULL DEFAULT 'UTC',
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "notification_settings_pkey" PRIMARY KEY ("userId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "push_tokens_token_key" ON "public"."push_tokens"("token");
+
+-- CreateIndex
+CREATE INDEX "push_tokens_userId_idx" ON "public"."push_tokens"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."push_tokens" ADD CONSTRAINT "push_tokens_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."notification_preferences" ADD CONSTRAINT "notification_preferences_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."notification_settings" ADD CONSTRAINT "notification_settings_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- AlterEnum
+ALTER TYPE "public"."NotificationType" ADD VALUE 'TASK_OVERDUE';
+
+-- CreateEnum
+CREATE TYPE "public"."ReminderJobType" AS ENUM ('DUE_REMINDER', 'OVERDUE_DIGEST');
+
+-- CreateEnum
+CREATE TYPE "public"."ReminderJobStatus" AS ENUM ('PENDING', 'RUNNING', 'DONE', 'SKIPPED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "public"."houses" ADD COLUMN     "dueReminderHours" INTEGER NOT NULL DEFAULT 24,
+ADD COLUMN     "overdueDigestEnabled" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "overdueDigestHour" INTEGER NOT NULL DEFAULT 9;
+
+-- AlterTable
+ALTER TABLE "public"."house_members" ADD COLUMN     "dueReminderHours" INTEGER,
+ADD COLUMN     "overdueDigestEnabled" BOOLEAN;
+
+-- CreateTable
+CREATE TABLE "public"."reminder_jobs" (
+    "id" TEXT NOT NULL,
+    "type" "public"."ReminderJobType" NOT NULL,
+    "status" "public"."ReminderJobStatus" NOT NULL DEFAULT 'PENDING',
+    "dedupeKey" TEXT NOT NULL,
+    "runAt" TIMESTAMP(3) NOT NULL,
+    "dueAt" TIMESTAMP(3),
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "lockedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "houseId" TEXT NOT NULL,
+    "memberId" TEXT NOT NULL,
+    "taskId" TEXT,
+
+    CONSTRAINT "reminder_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reminder_jobs_dedupeKey_key" ON "public"."reminder_jobs"("dedupeKey");
+
+-- CreateIndex
+CREATE INDEX "reminder_jobs_status_runAt_idx" ON "public"."reminder_jobs"("status", "runAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."reminder_jobs" ADD CONSTRAINT "reminder_jobs_houseId_fkey" FOREIGN KEY ("houseId") REFERENCES "public"."houses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."reminder_jobs" ADD CONSTRAINT "reminder_jobs_memberId_fkey" FOREIGN KEY ("memberId") REFERENCES "public"."house_members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."reminder_jobs" ADD CONSTRAINT "reminder_jobs_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "public"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "public"."NotificationType" ADD VALUE 'MENTIONED';
+ALTER TYPE "public"."NotificationType" ADD VALUE 'MEMBER_JOINED';
+ALTER TYPE "public"."NotificationType" ADD VALUE 'ROLE_CHANGED';
+
+-- CreateTable
+CREATE TABLE "public"."notifications" (
+    "id" TEXT NOT NULL,
+    "type" "public"."NotificationType" NOT NULL,
+    "title" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "data" JSONB,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+    "houseId" TEXT,
+    "actorId" TEXT,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notifications_userId_createdAt_idx" ON "public"."notifications"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "notifications_userId_readAt_idx" ON "public"."notifications"("userId", "readAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."notifications" ADD CONSTRAINT "notifications_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."notifications" ADD CONSTRAINT "notifications_houseId_fkey" FOREIGN KEY ("houseId") REFERENCES "public"."houses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."notifications" ADD CONSTRAINT "notifications_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "public"."house_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
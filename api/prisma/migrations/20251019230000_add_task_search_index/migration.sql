@@ -0,0 +1,3 @@
+-- CreateIndex
+-- Full-text index for task search, Prisma cannot declare expression indexes
+CREATE INDEX "tasks_search_idx" ON "public"."tasks" USING GIN (to_tsvector('simple', "title" || ' ' || coalesce("description", '')));
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "tasks_houseId_status_completedAt_idx" ON "public"."tasks"("houseId", "status", "completedAt");
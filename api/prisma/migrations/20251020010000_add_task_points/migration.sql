@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "public"."tasks" ADD COLUMN     "points" INTEGER;
+
+-- AlterTable
+ALTER TABLE "public"."categories" ADD COLUMN     "defaultPoints" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "public"."point_awards" (
+    "id" TEXT NOT NULL,
+    "points" INTEGER NOT NULL,
+    "taskTitle" TEXT NOT NULL,
+    "reversedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "houseId" TEXT NOT NULL,
+    "memberId" TEXT NOT NULL,
+    "taskId" TEXT,
+
+    CONSTRAINT "point_awards_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "point_awards_houseId_createdAt_idx" ON "public"."point_awards"("houseId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "point_awards_taskId_idx" ON "public"."point_awards"("taskId");
+
+-- AddForeignKey
+ALTER TABLE "public"."point_awards" ADD CONSTRAINT "point_awards_houseId_fkey" FOREIGN KEY ("houseId") REFERENCES "public"."houses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."point_awards" ADD CONSTRAINT "point_awards_memberId_fkey" FOREIGN KEY ("memberId") REFERENCES "public"."house_members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."point_awards" ADD CONSTRAINT "point_awards_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "public"."tasks"("id") ON DELETE SET NULL ON UPDATE CASCADE;
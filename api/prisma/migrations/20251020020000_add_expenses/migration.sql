@@ -0,0 +1,89 @@
+-- CreateEnum
+CREATE TYPE "public"."ExpenseSplitType" AS ENUM ('EQUAL', 'SHARES', 'EXACT');
+
+-- CreateTable
+CREATE TABLE "public"."expenses" (
+    "id" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "splitType" "public"."ExpenseSplitType" NOT NULL DEFAULT 'EQUAL',
+    "spentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "houseId" TEXT NOT NULL,
+    "paidById" TEXT,
+    "createdById" TEXT,
+    "taskId" TEXT,
+
+    CONSTRAINT "expenses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."expense_splits" (
+    "id" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "shares" INTEGER,
+    "expenseId" TEXT NOT NULL,
+    "memberId" TEXT,
+
+    CONSTRAINT "expense_splits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."settlements" (
+    "id" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "note" TEXT,
+    "settledAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "houseId" TEXT NOT NULL,
+    "fromId" TEXT,
+    "toId" TEXT,
+    "createdById" TEXT,
+
+    CONSTRAINT "settlements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "expenses_houseId_spentAt_idx" ON "public"."expenses"("houseId", "spentAt");
+
+-- CreateIndex
+CREATE INDEX "expenses_taskId_idx" ON "public"."expenses"("taskId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "expense_splits_expenseId_memberId_key" ON "public"."expense_splits"("expenseId", "memberId");
+
+-- CreateIndex
+CREATE INDEX "settlements_houseId_settledAt_idx" ON "public"."settlements"("houseId", "settledAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."expenses" ADD CONSTRAINT "expenses_houseId_fkey" FOREIGN KEY ("houseId") REFERENCES "public"."houses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."expenses" ADD CONSTRAINT "expenses_paidById_fkey" FOREIGN KEY ("paidById") REFERENCES "public"."house_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."expenses" ADD CONSTRAINT "expenses_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."house_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."expenses" ADD CONSTRAINT "expenses_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "public"."tasks"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."expense_splits" ADD CONSTRAINT "expense_splits_expenseId_fkey" FOREIGN KEY ("expenseId") REFERENCES "public"."expenses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."expense_splits" ADD CONSTRAINT "expense_splits_memberId_fkey" FOREIGN KEY ("memberId") REFERENCES "public"."house_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."settlements" ADD CONSTRAINT "settlements_houseId_fkey" FOREIGN KEY ("houseId") REFERENCES "public"."houses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."settlements" ADD CONSTRAINT "settlements_fromId_fkey" FOREIGN KEY ("fromId") REFERENCES "public"."house_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."settlements" ADD CONSTRAINT "settlements_toId_fkey" FOREIGN KEY ("toId") REFERENCES "public"."house_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."settlements" ADD CONSTRAINT "settlements_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."house_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "public"."calendar_feeds" (
+    "id" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "lastUsedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "memberId" TEXT NOT NULL,
+
+    CONSTRAINT "calendar_feeds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendar_feeds_tokenHash_key" ON "public"."calendar_feeds"("tokenHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendar_feeds_memberId_key" ON "public"."calendar_feeds"("memberId");
+
+-- AddForeignKey
+ALTER TABLE "public"."calendar_feeds" ADD CONSTRAINT "calendar_feeds_memberId_fkey" FOREIGN KEY ("memberId") REFERENCES "public"."house_members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
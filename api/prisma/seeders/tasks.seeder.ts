@@ -34,6 +34,8 @@ export const seedTasks = async (
           creatorIndex: 0, // Dad (owner)
           assigneeIndices: [0, 1], // Dad and Mom
           dueDate: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000), // 2 days from now
+          checklistItems: ['Milk', 'Eggs', 'Bread', 'Apples', 'Carrots', 'Chicken', 'Rice'],
+          autoCompleteChecklist: true,
         },
         {
           title: 'Deep clean living room',
@@ -132,6 +134,7 @@ export const seedTasks = async (
           creatorIndex: 1, // Emma D
           assigneeIndices: [2], // Alex B
           dueDate: new Date(Date.now() + 16 * 60 * 60 * 1000), // 16 hours from now
+          recurringPattern: { frequency: 'WEEKLY', daysOfWeek: [2] }, // Every Tuesday
         },
         {
           title: 'Buy party supplies',
@@ -205,6 +208,11 @@ export const seedTasks = async (
           createdById: creator.id,
           dueDate: taskData.dueDate,
           completedAt: taskData.completedAt || null,
+          recurringPattern: taskData.recurringPattern,
+          autoCompleteChecklist: taskData.autoCompleteChecklist ?? false,
+          checklistItems: {
+            create: (taskData.checklistItems ?? []).map((text, position) => ({ text, position })),
+          },
         },
       });
 
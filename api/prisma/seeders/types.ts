@@ -55,7 +55,7 @@ export interface SeededTask {
   completedAt: Date | null;
   houseId: string;
   categoryId: string | null;
-  createdById: string;
+  createdById: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
\ No newline at end of file
@@ -2,7 +2,13 @@ import express, { Request, Response } from "express";
 import cors from "cors";
 import authRoutes from "./modules/auth/auth.routes";
 import houseRoutes from "./modules/houses/houses.routes";
+import invitationRoutes from "./modules/invitations/invitations.routes";
+import notificationRoutes from "./modules/notifications/notifications.routes";
 import { errorHandler } from "./shared/middleware/errorHandler";
+import {
+  LOCAL_UPLOAD_DIR,
+  LOCAL_UPLOAD_PATH,
+} from "./shared/storage/storage";
 
 const app = express();
 
@@ -11,6 +17,9 @@ app.use(cors());
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
+// Files stored by the local storage driver (avatars, ...)
+app.use(LOCAL_UPLOAD_PATH, express.static(LOCAL_UPLOAD_DIR));
+
 // Health check endpoint
 app.get("/api/v1/health", (req: Request, res: Response) => {
   res.status(200).json({
@@ -26,6 +35,8 @@ app.get("/api/v1/health", (req: Request, res: Response) => {
 // Route modules
 app.use("/api/v1/auth", authRoutes);
 app.use("/api/v1/houses", houseRoutes);
+app.use("/api/v1/invitations", invitationRoutes);
+app.use("/api/v1/notifications", notificationRoutes);
 
 // Error handling middleware - MUST be registered AFTER all routes
 app.use(errorHandler);
@@ -1,6 +1,31 @@
 import { Request, Response } from "express";
-import { registerUser, loginUser } from "./auth.service";
-import { registerSchema, loginSchema } from "./auth.schemas";
+import {
+  registerUser,
+  loginUser,
+  refreshSession,
+  logoutUser,
+  getUserSessions,
+  revokeUserSession,
+  requestPasswordReset,
+  resetPassword as resetUserPassword,
+  changePassword as changeUserPassword,
+  updateProfile,
+  verifyEmailChange,
+  updateAvatar,
+  deleteAccount,
+} from "./auth.service";
+import {
+  registerSchema,
+  loginSchema,
+  refreshSchema,
+  sessionIdParamSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  changePasswordSchema,
+  updateProfileSchema,
+  verifyEmailChangeSchema,
+  deleteAccountSchema,
+} from "./auth.schemas";
 import { validateData } from "../../shared/utils/validation";
 import { AuthRequest } from "../../shared/middleware/auth.middleware";
 
@@ -57,3 +82,208 @@ export const getMe = async (req: AuthRequest, res: Response): Promise<void> => {
     },
   });
 };
+
+/**
+ * Update current user profile
+ * PATCH /api/v1/auth/me
+ * Protected route - requires authentication
+ */
+export const updateMe = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  // Validate request body
+  const validatedData = validateData(updateProfileSchema, req.body);
+
+  const result = await updateProfile(req.user!.id, validatedData);
+
+  res.status(200).json({
+    success: true,
+    data: result,
+  });
+};
+
+/**
+ * Confirm a new email address
+ * POST /api/v1/auth/me/email/verify
+ */
+export const verifyEmail = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  // Validate request body
+  const validatedData = validateData(verifyEmailChangeSchema, req.body);
+
+  const user = await verifyEmailChange(validatedData);
+
+  res.status(200).json({
+    success: true,
+    data: { user },
+  });
+};
+
+/**
+ * Upload current user avatar
+ * PUT /api/v1/auth/me/avatar (multipart/form-data, field "avatar")
+ * Protected route - requires authentication
+ */
+export const uploadAvatar = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  // File is validated and attached by uploadImage middleware
+  const result = await updateAvatar(req.user!.id, req.file!.buffer);
+
+  res.status(200).json({
+    success: true,
+    data: result,
+  });
+};
+
+/**
+ * Delete current user account
+ * DELETE /api/v1/auth/me
+ * Protected route - requires authentication
+ */
+export const deleteMe = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  // Validate request body
+  const validatedData = validateData(deleteAccountSchema, req.body);
+
+  await deleteAccount(req.user!.id, validatedData);
+
+  res.status(200).json({
+    success: true,
+    data: { message: "Account deleted successfully" },
+  });
+};
+
+/**
+ * Refresh access token
+ * POST /api/v1/auth/refresh
+ */
+export const refresh = async (req: Request, res: Response): Promise<void> => {
+  // Validate request body
+  const validatedData = validateData(refreshSchema, req.body);
+
+  // Rotate refresh token and generate new access token
+  const result = await refreshSession(validatedData);
+
+  res.status(200).json({
+    success: true,
+    data: result,
+  });
+};
+
+/**
+ * Logout current session
+ * POST /api/v1/auth/logout
+ * Protected route - requires authentication
+ */
+export const logout = async (req: AuthRequest, res: Response): Promise<void> => {
+  await logoutUser(req.user!.id, req.sessionId!);
+
+  res.status(200).json({
+    success: true,
+    data: { message: "Logged out successfully" },
+  });
+};
+
+/**
+ * Get active sessions of current user
+ * GET /api/v1/auth/sessions
+ * Protected route - requires authentication
+ */
+export const getSessions = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  const sessions = await getUserSessions(req.user!.id, req.sessionId);
+
+  res.status(200).json({
+    success: true,
+    data: { sessions },
+  });
+};
+
+/**
+ * Revoke a session of current user
+ * DELETE /api/v1/auth/sessions/:id
+ * Protected route - requires authentication
+ */
+export const revokeSession = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  const { id } = validateData(sessionIdParamSchema, req.params);
+
+  await revokeUserSession(req.user!.id, id);
+
+  res.status(200).json({
+    success: true,
+    data: { message: "Session revoked successfully" },
+  });
+};
+
+/**
+ * Request a password reset email
+ * POST /api/v1/auth/password/forgot
+ */
+export const forgotPassword = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  // Validate request body
+  const validatedData = validateData(forgotPasswordSchema, req.body);
+
+  await requestPasswordReset(validatedData);
+
+  // Same response whether or not the email exists
+  res.status(200).json({
+    success: true,
+    data: {
+      message: "If this email is registered, a reset link has been sent",
+    },
+  });
+};
+
+/**
+ * Reset password with emailed token
+ * POST /api/v1/auth/password/reset
+ */
+export const resetPassword = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  // Validate request body
+  const validatedData = validateData(resetPasswordSchema, req.body);
+
+  await resetUserPassword(validatedData);
+
+  res.status(200).json({
+    success: true,
+    data: { message: "Password reset successfully" },
+  });
+};
+
+/**
+ * Change password of current user
+ * PUT /api/v1/auth/password
+ * Protected route - requires authentication
+ */
+export const changePassword = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  // Validate request body
+  const validatedData = validateData(changePasswordSchema, req.body);
+
+  await changeUserPassword(req.user!.id, req.sessionId!, validatedData);
+
+  res.status(200).json({
+    success: true,
+    data: { message: "Password changed successfully" },
+  });
+};
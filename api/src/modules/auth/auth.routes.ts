@@ -1,6 +1,7 @@
 import { Router } from "express";
 import * as authController from "./auth.controller";
 import { authenticate } from "../../shared/middleware/auth.middleware";
+import { uploadImage } from "../../shared/middleware/upload.middleware";
 
 const router = Router();
 
@@ -25,4 +26,86 @@ router.post("/login", authController.login);
  */
 router.get("/me", authenticate, authController.getMe);
 
+/**
+ * @route   PATCH /api/v1/auth/me
+ * @desc    Update current user profile (email changes need verification)
+ * @access  Protected (requires JWT)
+ */
+router.patch("/me", authenticate, authController.updateMe);
+
+/**
+ * @route   DELETE /api/v1/auth/me
+ * @desc    Delete current user account (requires password)
+ * @access  Protected (requires JWT)
+ */
+router.delete("/me", authenticate, authController.deleteMe);
+
+/**
+ * @route   POST /api/v1/auth/me/email/verify
+ * @desc    Confirm a new email address with the emailed token
+ * @access  Public
+ */
+router.post("/me/email/verify", authController.verifyEmail);
+
+/**
+ * @route   PUT /api/v1/auth/me/avatar
+ * @desc    Upload current user avatar (multipart, field "avatar")
+ * @access  Protected (requires JWT)
+ */
+router.put(
+  "/me/avatar",
+  authenticate,
+  uploadImage("avatar"),
+  authController.uploadAvatar
+);
+
+/**
+ * @route   POST /api/v1/auth/refresh
+ * @desc    Exchange refresh token for a new token pair
+ * @access  Public
+ */
+router.post("/refresh", authController.refresh);
+
+/**
+ * @route   POST /api/v1/auth/logout
+ * @desc    Revoke current session
+ * @access  Protected (requires JWT)
+ */
+router.post("/logout", authenticate, authController.logout);
+
+/**
+ * @route   GET /api/v1/auth/sessions
+ * @desc    List active sessions of current user
+ * @access  Protected (requires JWT)
+ */
+router.get("/sessions", authenticate, authController.getSessions);
+
+/**
+ * @route   DELETE /api/v1/auth/sessions/:id
+ * @desc    Revoke a session of current user
+ * @access  Protected (requires JWT)
+ */
+router.delete("/sessions/:id", authenticate, authController.revokeSession);
+
+/**
+ * @route   POST /api/v1/auth/password/forgot
+ * @desc    Send a password reset link by email
+ * @access  Public
+ */
+router.post("/password/forgot", authController.forgotPassword);
+
+/**
+ * @route   POST /api/v1/auth/password/reset
+ * @desc    Reset password with emailed token
+ * @access  Public
+ */
+router.post("/password/reset", authController.resetPassword);
+
+/**
+ * @route   PUT /api/v1/auth/password
+ * @desc    Change password (requires current password)
+ * @access  Protected (requires JWT)
+ */
+router.put("/password", authenticate, authController.changePassword);
+
 export default router;
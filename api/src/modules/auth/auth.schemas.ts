@@ -1,5 +1,15 @@
 import { z } from "zod";
 
+// Password validation: min 8 chars
+const passwordSchema = z.string().min(8, "Password must be at least 8 characters");
+
+// Device label validation: optional, shown in the sessions list
+const deviceLabelSchema = z
+  .string()
+  .trim()
+  .max(100, "Device label must be at most 100 characters")
+  .optional();
+
 /**
  * Register request validation schema
  * Creates a new user account with email, password, and profile info
@@ -12,11 +22,13 @@ export const registerSchema = z.object({
     .toLowerCase()
     .trim(),
 
-  password: z.string().min(8, "Password must be at least 8 characters"),
+  password: passwordSchema,
 
   firstName: z.string().min(1, "First name is required").trim(),
 
   lastName: z.string().min(1, "Last name is required").trim(),
+
+  deviceLabel: deviceLabelSchema,
 });
 
 /**
@@ -32,8 +44,125 @@ export const loginSchema = z.object({
     .trim(),
 
   password: z.string().min(1, "Password is required"),
+
+  deviceLabel: deviceLabelSchema,
+});
+
+/**
+ * Refresh request validation schema
+ * Exchanges a refresh token for a new access/refresh token pair
+ */
+export const refreshSchema = z.object({
+  refreshToken: z.string().min(1, "Refresh token is required"),
+});
+
+/**
+ * Forgot password request validation schema
+ * Sends a password reset token by email
+ */
+export const forgotPasswordSchema = z.object({
+  email: z
+    .string()
+    .min(1, "Email is required")
+    .email("Invalid email format")
+    .toLowerCase()
+    .trim(),
+});
+
+/**
+ * Reset password request validation schema
+ * Sets a new password using the emailed token
+ */
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+
+  password: passwordSchema,
+});
+
+/**
+ * Change password request validation schema
+ * Requires the current password of the authenticated user
+ */
+export const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, "Current password is required"),
+
+    newPassword: passwordSchema,
+  })
+  .refine((data) => data.currentPassword !== data.newPassword, {
+    message: "New password must be different from the current password",
+    path: ["newPassword"],
+  });
+
+/**
+ * Profile update request validation schema
+ * Email changes only apply once the new address is verified
+ */
+export const updateProfileSchema = z
+  .object({
+    firstName: z.string().min(1, "First name is required").trim().optional(),
+
+    lastName: z.string().min(1, "Last name is required").trim().optional(),
+
+    email: z
+      .string()
+      .min(1, "Email is required")
+      .email("Invalid email format")
+      .toLowerCase()
+      .trim()
+      .optional(),
+  })
+  .refine(
+    (data) =>
+      data.firstName !== undefined ||
+      data.lastName !== undefined ||
+      data.email !== undefined,
+    { message: "At least one field is required" }
+  );
+
+/**
+ * Email change verification request validation schema
+ */
+export const verifyEmailChangeSchema = z.object({
+  token: z.string().min(1, "Verification token is required"),
+});
+
+/**
+ * Account deletion request validation schema
+ * Transfers name the new owner (user ID) of houses the user is the only owner of
+ */
+export const deleteAccountSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+
+  transfers: z
+    .array(
+      z.object({
+        houseId: z.string().uuid("Invalid house ID format"),
+        newOwnerId: z.string().uuid("Invalid user ID format"),
+      })
+    )
+    .refine(
+      (transfers) =>
+        new Set(transfers.map((t) => t.houseId)).size === transfers.length,
+      { message: "Each house can only have one transfer" }
+    )
+    .default([]),
+});
+
+/**
+ * Session ID parameter validation schema
+ */
+export const sessionIdParamSchema = z.object({
+  id: z.string().uuid("Invalid session ID format"),
 });
 
 // Export types for TypeScript usage
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
+export type RefreshInput = z.infer<typeof refreshSchema>;
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
+export type VerifyEmailChangeInput = z.infer<typeof verifyEmailChangeSchema>;
+export type DeleteAccountInput = z.infer<typeof deleteAccountSchema>;
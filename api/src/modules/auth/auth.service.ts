@@ -1,26 +1,64 @@
 import { PrismaClient, User } from "@prisma/client";
 import bcrypt from "bcrypt";
-import { RegisterInput, LoginInput } from "./auth.schemas";
+import { randomUUID } from "crypto";
+import {
+  RegisterInput,
+  LoginInput,
+  RefreshInput,
+  ForgotPasswordInput,
+  ResetPasswordInput,
+  ChangePasswordInput,
+  UpdateProfileInput,
+  VerifyEmailChangeInput,
+  DeleteAccountInput,
+} from "./auth.schemas";
 import {
   ConflictError,
   UnauthorizedError,
   NotFoundError,
+  UnprocessableEntityError,
 } from "../../shared/errors/AppError";
 import { generateToken } from "../../shared/utils/jwt";
-import { AuthResponse, UserResponse } from "../../shared/types/auth";
+import { isUniqueConstraintError } from "../../shared/utils/prisma";
+import { generateOpaqueToken, hashToken } from "../../shared/utils/tokens";
+import { sendMail } from "../../shared/mail/mailer";
+import { getStorage } from "../../shared/storage/storage";
+import { resizeSquareImage } from "../../shared/utils/images";
+import { recordHouseEvent } from "../houses/houses.events";
+import { ExpenseService } from "../expenses/expenses.service";
+import {
+  RealtimeService,
+  toRealtimeMember,
+} from "../realtime/realtime.service";
+import {
+  AuthResponse,
+  AvatarResponse,
+  ProfileUpdateResponse,
+  SessionResponse,
+  TokenPairResponse,
+  UserResponse,
+} from "../../shared/types/auth";
 const prisma = new PrismaClient();
 
+/**
+ * Expiry of a new refresh token (REFRESH_TOKEN_EXPIRES_IN_DAYS, default 30)
+ */
+const getRefreshTokenExpiry = (): Date => {
+  const days = parseInt(process.env.REFRESH_TOKEN_EXPIRES_IN_DAYS || "") || 30;
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+};
+
 /**
  * Registers a new user account
  *
  * @param data - Validated registration data
- * @returns User object and JWT token
+ * @returns User object, JWT access token and refresh token
  * @throws ConflictError if email already exists
  */
 export const registerUser = async (
   data: RegisterInput
 ): Promise<AuthResponse> => {
-  const { email, password, firstName, lastName } = data;
+  const { email, password, firstName, lastName, deviceLabel } = data;
 
   // Check if user already exists
   const existingUser = await prisma.user.findUnique({
@@ -46,33 +84,18 @@ export const registerUser = async (
     },
   });
 
-  // Generate JWT token
-  const token = generateToken({
-    userId: user.id,
-    email: user.email,
-  });
-
-  return {
-    user: {
-      id: user.id,
-      email: user.email,
-      firstName: user.firstName,
-      lastName: user.lastName,
-      avatar: user.avatar,
-    },
-    token,
-  };
+  return createSession(user, deviceLabel);
 };
 
 /**
  * Authenticates user and returns JWT token
  *
  * @param data - Validated login credentials
- * @returns User object and JWT token
+ * @returns User object, JWT access token and refresh token
  * @throws UnauthorizedError if credentials are invalid
  */
 export const loginUser = async (data: LoginInput): Promise<AuthResponse> => {
-  const { email, password } = data;
+  const { email, password, deviceLabel } = data;
 
   // Find user by email
   const user = await prisma.user.findUnique({
@@ -90,22 +113,685 @@ export const loginUser = async (data: LoginInput): Promise<AuthResponse> => {
     throw new UnauthorizedError("Invalid email or password");
   }
 
-  // Generate JWT token
+  return createSession(user, deviceLabel);
+};
+
+/**
+ * Exchanges a refresh token for a new token pair (rotation)
+ * Presenting an already rotated token revokes the whole session
+ *
+ * @param data - Validated refresh token
+ * @returns New JWT access token and refresh token
+ * @throws UnauthorizedError if the token is invalid, expired, reused or revoked
+ */
+export const refreshSession = async (
+  data: RefreshInput
+): Promise<TokenPairResponse> => {
+  const refreshToken = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(data.refreshToken) },
+    include: {
+      session: {
+        include: { user: true },
+      },
+    },
+  });
+
+  if (!refreshToken) {
+    throw new UnauthorizedError("Invalid refresh token");
+  }
+
+  const { session } = refreshToken;
+
+  if (session.revokedAt) {
+    throw new UnauthorizedError("Session has been revoked");
+  }
+
+  // Token reuse: someone holds a stale copy, revoke the whole family
+  if (refreshToken.replacedAt) {
+    await revokeSessionById(session.id);
+    throw new UnauthorizedError("Refresh token reuse detected");
+  }
+
+  if (refreshToken.expiresAt <= new Date()) {
+    throw new UnauthorizedError("Refresh token has expired");
+  }
+
+  const newRefreshToken = generateOpaqueToken(48);
+  const expiresAt = getRefreshTokenExpiry();
+
+  const rotated = await prisma.$transaction(async (tx) => {
+    const now = new Date();
+
+    // Conditional update so two concurrent refreshes cannot both succeed
+    const claimed = await tx.refreshToken.updateMany({
+      where: { id: refreshToken.id, replacedAt: null },
+      data: { replacedAt: now },
+    });
+
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    await tx.refreshToken.create({
+      data: {
+        tokenHash: hashToken(newRefreshToken),
+        expiresAt,
+        sessionId: session.id,
+      },
+    });
+
+    await tx.session.update({
+      where: { id: session.id },
+      data: { lastUsedAt: now, expiresAt },
+    });
+
+    return true;
+  });
+
+  if (!rotated) {
+    await revokeSessionById(session.id);
+    throw new UnauthorizedError("Refresh token reuse detected");
+  }
+
   const token = generateToken({
-    userId: user.id,
-    email: user.email,
+    userId: session.user.id,
+    email: session.user.email,
+    sessionId: session.id,
   });
 
-  return {
-    user: {
-      id: user.id,
-      email: user.email,
-      firstName: user.firstName,
-      lastName: user.lastName,
-      avatar: user.avatar,
+  return { token, refreshToken: newRefreshToken };
+};
+
+/**
+ * Logs out the session the request was made with
+ *
+ * @param userId - User UUID
+ * @param sessionId - Current session UUID (from the access token)
+ */
+export const logoutUser = async (
+  userId: string,
+  sessionId: string
+): Promise<void> => {
+  await revokeUserSession(userId, sessionId);
+};
+
+/**
+ * Gets the active sessions of a user, most recently used first
+ *
+ * @param userId - User UUID
+ * @param currentSessionId - Session of the request, flagged as current
+ * @returns Active sessions
+ */
+export const getUserSessions = async (
+  userId: string,
+  currentSessionId?: string
+): Promise<SessionResponse[]> => {
+  const sessions = await prisma.session.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
     },
-    token,
-  };
+    orderBy: { lastUsedAt: "desc" },
+  });
+
+  return sessions.map((session) => ({
+    id: session.id,
+    deviceLabel: session.deviceLabel,
+    lastUsedAt: session.lastUsedAt,
+    expiresAt: session.expiresAt,
+    createdAt: session.createdAt,
+    current: session.id === currentSessionId,
+  }));
+};
+
+/**
+ * Revokes one of the user's sessions
+ *
+ * @param userId - User UUID
+ * @param sessionId - Session UUID to revoke
+ * @throws NotFoundError if the session doesn't exist or is already revoked
+ */
+export const revokeUserSession = async (
+  userId: string,
+  sessionId: string
+): Promise<void> => {
+  const { count } = await prisma.session.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  if (count === 0) {
+    throw new NotFoundError("Session not found");
+  }
+};
+
+/**
+ * Checks that a session is still usable (auth middleware)
+ *
+ * @param userId - User UUID from the access token
+ * @param sessionId - Session UUID from the access token
+ * @throws UnauthorizedError if the session is revoked, expired or not the user's
+ */
+export const assertActiveSession = async (
+  userId: string,
+  sessionId: string | undefined
+): Promise<void> => {
+  const session = sessionId
+    ? await prisma.session.findUnique({ where: { id: sessionId } })
+    : null;
+
+  if (
+    !session ||
+    session.userId !== userId ||
+    session.revokedAt ||
+    session.expiresAt <= new Date()
+  ) {
+    throw new UnauthorizedError("Session is no longer valid");
+  }
+};
+
+/**
+ * Sends a single-use password reset token by email
+ * Responds the same way whether or not the email is registered
+ *
+ * @param data - Validated email
+ */
+export const requestPasswordReset = async (
+  data: ForgotPasswordInput
+): Promise<void> => {
+  const user = await prisma.user.findUnique({
+    where: { email: data.email },
+  });
+
+  if (!user) {
+    return;
+  }
+
+  const minutes =
+    parseInt(process.env.PASSWORD_RESET_EXPIRES_IN_MINUTES || "") || 60;
+  const token = generateOpaqueToken();
+
+  // Only the latest reset token is valid
+  await prisma.$transaction([
+    prisma.passwordResetToken.deleteMany({
+      where: { userId: user.id, usedAt: null },
+    }),
+    prisma.passwordResetToken.create({
+      data: {
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + minutes * 60 * 1000),
+        userId: user.id,
+      },
+    }),
+  ]);
+
+  const resetUrl = process.env.PASSWORD_RESET_URL || "mehouse://reset-password";
+
+  await sendMail({
+    to: user.email,
+    subject: "Reset your MeHouse password",
+    text: [
+      `Hi ${user.firstName},`,
+      "",
+      "Someone asked to reset the password of your MeHouse account.",
+      `Use this link within ${minutes} minutes to choose a new password:`,
+      `${resetUrl}?token=${token}`,
+      "",
+      "If you didn't ask for this, you can ignore this email.",
+    ].join("\n"),
+  });
+};
+
+/**
+ * Resets a password with an emailed token and logs out every session
+ *
+ * @param data - Validated token and new password
+ * @throws UnprocessableEntityError if the token is invalid, used or expired
+ */
+export const resetPassword = async (data: ResetPasswordInput): Promise<void> => {
+  const resetToken = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: hashToken(data.token) },
+  });
+
+  if (
+    !resetToken ||
+    resetToken.usedAt ||
+    resetToken.expiresAt <= new Date()
+  ) {
+    throw new UnprocessableEntityError("Invalid or expired reset token");
+  }
+
+  const hashedPassword = await bcrypt.hash(data.password, 10);
+
+  await prisma.$transaction(async (tx) => {
+    const now = new Date();
+
+    // Conditional update so a token can't be used twice concurrently
+    const claimed = await tx.passwordResetToken.updateMany({
+      where: { id: resetToken.id, usedAt: null },
+      data: { usedAt: now },
+    });
+
+    if (claimed.count === 0) {
+      throw new UnprocessableEntityError("Invalid or expired reset token");
+    }
+
+    await tx.user.update({
+      where: { id: resetToken.userId },
+      data: { password: hashedPassword },
+    });
+
+    await tx.session.updateMany({
+      where: { userId: resetToken.userId, revokedAt: null },
+      data: { revokedAt: now },
+    });
+  });
+};
+
+/**
+ * Changes the password of an authenticated user and logs out other sessions
+ *
+ * @param userId - User UUID
+ * @param currentSessionId - Session kept logged in
+ * @param data - Validated current and new password
+ * @throws UnauthorizedError if the current password is wrong
+ */
+export const changePassword = async (
+  userId: string,
+  currentSessionId: string,
+  data: ChangePasswordInput
+): Promise<void> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+  });
+
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
+
+  const isPasswordValid = await bcrypt.compare(
+    data.currentPassword,
+    user.password
+  );
+
+  if (!isPasswordValid) {
+    throw new UnauthorizedError("Current password is incorrect");
+  }
+
+  const hashedPassword = await bcrypt.hash(data.newPassword, 10);
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { password: hashedPassword },
+    }),
+    prisma.session.updateMany({
+      where: {
+        userId,
+        id: { not: currentSessionId },
+        revokedAt: null,
+      },
+      data: { revokedAt: new Date() },
+    }),
+  ]);
+};
+
+/**
+ * Updates the profile of a user
+ * A new email is only applied after the link sent to it is opened
+ *
+ * @param userId - User UUID
+ * @param data - Validated profile fields
+ * @returns Updated user and the email awaiting verification, if any
+ * @throws ConflictError if the new email is already in use
+ */
+export const updateProfile = async (
+  userId: string,
+  data: UpdateProfileInput
+): Promise<ProfileUpdateResponse> => {
+  // Checked before any write, so a rejected email leaves the profile as is
+  if (data.email) {
+    const existingUser = await prisma.user.findUnique({
+      where: { email: data.email },
+    });
+
+    if (existingUser && existingUser.id !== userId) {
+      throw new ConflictError("Email already registered", {
+        email: "This email is already in use",
+      });
+    }
+  }
+
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: {
+      ...(data.firstName && { firstName: data.firstName }),
+      ...(data.lastName && { lastName: data.lastName }),
+    },
+  });
+
+  if (!data.email || data.email === user.email) {
+    return { user: toUserResponse(user), pendingEmail: null };
+  }
+
+  const hours =
+    parseInt(process.env.EMAIL_CHANGE_EXPIRES_IN_HOURS || "") || 24;
+  const token = generateOpaqueToken();
+
+  // Only the latest requested email can be verified
+  await prisma.$transaction([
+    prisma.emailChangeToken.deleteMany({
+      where: { userId, usedAt: null },
+    }),
+    prisma.emailChangeToken.create({
+      data: {
+        email: data.email,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + hours * 60 * 60 * 1000),
+        userId,
+      },
+    }),
+  ]);
+
+  const verifyUrl = process.env.EMAIL_VERIFY_URL || "mehouse://verify-email";
+
+  await sendMail({
+    to: data.email,
+    subject: "Confirm your new MeHouse email",
+    text: [
+      `Hi ${user.firstName},`,
+      "",
+      "Confirm this address as the new email of your MeHouse account:",
+      `${verifyUrl}?token=${token}`,
+      "",
+      `The link is valid for ${hours} hours. Your current email stays active until then.`,
+    ].join("\n"),
+  });
+
+  return { user: toUserResponse(user), pendingEmail: data.email };
+};
+
+/**
+ * Applies a pending email change with the token sent to the new address
+ *
+ * @param data - Validated verification token
+ * @returns Updated user
+ * @throws UnprocessableEntityError if the token is invalid, used or expired
+ * @throws ConflictError if the email was taken in the meantime
+ */
+export const verifyEmailChange = async (
+  data: VerifyEmailChangeInput
+): Promise<UserResponse> => {
+  const emailChange = await prisma.emailChangeToken.findUnique({
+    where: { tokenHash: hashToken(data.token) },
+  });
+
+  if (
+    !emailChange ||
+    emailChange.usedAt ||
+    emailChange.expiresAt <= new Date()
+  ) {
+    throw new UnprocessableEntityError("Invalid or expired verification token");
+  }
+
+  try {
+    const user = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.emailChangeToken.updateMany({
+        where: { id: emailChange.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        throw new UnprocessableEntityError(
+          "Invalid or expired verification token"
+        );
+      }
+
+      return await tx.user.update({
+        where: { id: emailChange.userId },
+        data: { email: emailChange.email },
+      });
+    });
+
+    return toUserResponse(user);
+  } catch (error) {
+    if (isUniqueConstraintError(error, "email")) {
+      throw new ConflictError("Email already registered", {
+        email: "This email is already in use",
+      });
+    }
+    throw error;
+  }
+};
+
+/**
+ * Replaces the avatar of a user
+ * Stores a 512px image and a 128px thumbnail, then removes the previous files
+ *
+ * @param userId - User UUID
+ * @param image - Uploaded image data
+ * @returns Updated user (avatar URL) and thumbnail URL
+ * @throws ValidationError if the upload is not a readable image
+ */
+export const updateAvatar = async (
+  userId: string,
+  image: Buffer
+): Promise<AvatarResponse> => {
+  const [avatar, thumbnail] = await Promise.all([
+    resizeSquareImage(image, 512),
+    resizeSquareImage(image, 128),
+  ]);
+
+  const storage = getStorage();
+  const key = `avatars/${userId}/${randomUUID()}`;
+
+  const avatarUrl = await storage.put(`${key}.webp`, avatar, "image/webp");
+  const thumbnailUrl = await storage.put(
+    `${key}-thumb.webp`,
+    thumbnail,
+    "image/webp"
+  );
+
+  const previous = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { avatar: true },
+  });
+
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: { avatar: avatarUrl },
+  });
+
+  // Clean up old files only once the new avatar is saved
+  if (previous?.avatar) {
+    await storage.delete(previous.avatar);
+    await storage.delete(getAvatarThumbnailUrl(previous.avatar));
+  }
+
+  return { user: toUserResponse(user), thumbnailUrl };
+};
+
+/**
+ * Deletes the account of a user after checking each house they own
+ * Houses where the user is the only member are deleted, houses where they are
+ * the only owner are handed over to the member named in `transfers`
+ * Tasks they created are kept without a creator, expense balances must be
+ * settled in the houses that remain
+ *
+ * @param userId - User UUID
+ * @param data - Validated password and ownership transfers
+ * @throws UnauthorizedError if the password is wrong
+ * @throws UnprocessableEntityError listing houses that still need a new owner
+ * or a settlement
+ */
+export const deleteAccount = async (
+  userId: string,
+  data: DeleteAccountInput
+): Promise<void> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+  });
+
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
+
+  const isPasswordValid = await bcrypt.compare(data.password, user.password);
+
+  if (!isPasswordValid) {
+    throw new UnauthorizedError("Password is incorrect");
+  }
+
+  const ownerships = await prisma.houseMember.findMany({
+    where: { userId, role: "OWNER" },
+    include: {
+      house: {
+        select: {
+          id: true,
+          name: true,
+          members: {
+            select: { userId: true, role: true },
+          },
+        },
+      },
+    },
+  });
+
+  const housesToDelete: string[] = [];
+  const newOwners: { houseId: string; userId: string }[] = [];
+  const housesNeedingAction: Record<string, string> = {};
+
+  for (const { house } of ownerships) {
+    const otherMembers = house.members.filter((m) => m.userId !== userId);
+
+    if (otherMembers.length === 0) {
+      housesToDelete.push(house.id);
+      continue;
+    }
+
+    // Another owner keeps the house running
+    if (otherMembers.some((m) => m.role === "OWNER")) {
+      continue;
+    }
+
+    const transfer = data.transfers.find((t) => t.houseId === house.id);
+
+    if (!transfer) {
+      housesNeedingAction[house.id] =
+        `Choose a new owner for "${house.name}"`;
+    } else if (!otherMembers.some((m) => m.userId === transfer.newOwnerId)) {
+      housesNeedingAction[house.id] =
+        `New owner must be another member of "${house.name}"`;
+    } else {
+      newOwners.push({ houseId: house.id, userId: transfer.newOwnerId });
+    }
+  }
+
+  // Their expenses and settlements stay in the houses that remain
+  const remainingMemberships = await prisma.houseMember.findMany({
+    where: { userId, houseId: { notIn: housesToDelete } },
+    include: { house: { select: { name: true } } },
+  });
+
+  for (const membership of remainingMemberships) {
+    const hasOpenBalance =
+      !housesNeedingAction[membership.houseId] &&
+      (await ExpenseService.hasOpenBalance(membership.houseId, membership.id));
+
+    if (hasOpenBalance) {
+      housesNeedingAction[membership.houseId] =
+        `Settle up your balances in "${membership.house.name}"`;
+    }
+  }
+
+  if (Object.keys(housesNeedingAction).length > 0) {
+    throw new UnprocessableEntityError(
+      "Some houses need action before the account can be deleted",
+      housesNeedingAction
+    );
+  }
+
+  const changes = await prisma.$transaction(async (tx) => {
+    await tx.house.deleteMany({
+      where: { id: { in: housesToDelete } },
+    });
+
+    // Memberships in the houses that remain, logged before they cascade
+    const memberships = await tx.houseMember.findMany({
+      where: { userId },
+    });
+
+    const promotedMembers = [];
+
+    for (const newOwner of newOwners) {
+      const promoted = await tx.houseMember.update({
+        where: {
+          userId_houseId: {
+            userId: newOwner.userId,
+            houseId: newOwner.houseId,
+          },
+        },
+        data: { role: "OWNER" },
+      });
+
+      await recordHouseEvent(tx, {
+        type: "ROLE_CHANGED",
+        member: promoted,
+        actorId:
+          memberships.find((m) => m.houseId === newOwner.houseId)?.id ?? null,
+        roleChange: { from: "MEMBER", to: "OWNER" },
+      });
+
+      promotedMembers.push(promoted);
+    }
+
+    for (const membership of memberships) {
+      await recordHouseEvent(tx, {
+        type: "MEMBER_LEFT",
+        member: membership,
+        actorId: membership.id,
+      });
+    }
+
+    // Anonymize tasks in the houses that remain
+    await tx.task.updateMany({
+      where: { createdBy: { userId } },
+      data: { createdById: null },
+    });
+
+    // Memberships, sessions and tokens cascade
+    await tx.user.delete({
+      where: { id: userId },
+    });
+
+    return { memberships, promotedMembers };
+  });
+
+  for (const houseId of housesToDelete) {
+    RealtimeService.publish(houseId, "house.deleted", null, {});
+    RealtimeService.disconnectHouse(houseId);
+  }
+
+  for (const promoted of changes.promotedMembers) {
+    RealtimeService.publish(promoted.houseId, "member.role_changed", null, {
+      member: toRealtimeMember(promoted),
+    });
+  }
+
+  for (const membership of changes.memberships) {
+    RealtimeService.publish(membership.houseId, "member.left", membership.id, {
+      memberId: membership.id,
+      userId,
+    });
+    RealtimeService.disconnectUser(membership.houseId, userId);
+  }
+
+  if (user.avatar) {
+    const storage = getStorage();
+    await storage.delete(user.avatar);
+    await storage.delete(getAvatarThumbnailUrl(user.avatar));
+  }
 };
 
 /**
@@ -124,11 +810,74 @@ export const getUserById = async (userId: string): Promise<UserResponse> => {
     throw new NotFoundError("User not found");
   }
 
-  return {
-    id: user.id,
+  return toUserResponse(user);
+};
+
+/**
+ * Gets the thumbnail URL of an avatar URL (stored next to it)
+ *
+ * @param avatarUrl - Avatar URL from UserResponse.avatar
+ * @returns Thumbnail URL
+ */
+export const getAvatarThumbnailUrl = (avatarUrl: string): string => {
+  return avatarUrl.replace(/\.webp$/, "-thumb.webp");
+};
+
+/**
+ * Maps a user row to the public user shape (without password)
+ */
+const toUserResponse = (user: User): UserResponse => ({
+  id: user.id,
+  email: user.email,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  avatar: user.avatar,
+});
+
+/**
+ * Creates a session with its first refresh token and signs an access token
+ */
+const createSession = async (
+  user: User,
+  deviceLabel?: string
+): Promise<AuthResponse> => {
+  const refreshToken = generateOpaqueToken(48);
+  const expiresAt = getRefreshTokenExpiry();
+
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      deviceLabel,
+      expiresAt,
+      refreshTokens: {
+        create: {
+          tokenHash: hashToken(refreshToken),
+          expiresAt,
+        },
+      },
+    },
+  });
+
+  // Generate JWT token
+  const token = generateToken({
+    userId: user.id,
     email: user.email,
-    firstName: user.firstName,
-    lastName: user.lastName,
-    avatar: user.avatar,
+    sessionId: session.id,
+  });
+
+  return {
+    user: toUserResponse(user),
+    token,
+    refreshToken,
   };
 };
+
+/**
+ * Revokes a session regardless of its owner (refresh token reuse)
+ */
+const revokeSessionById = async (sessionId: string): Promise<void> => {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+};
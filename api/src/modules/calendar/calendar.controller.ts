@@ -0,0 +1,72 @@
+import { Request, Response } from "express";
+import { AuthRequest } from "../../shared/middleware/auth.middleware";
+import { validateData } from "../../shared/utils/validation";
+import { CalendarService } from "./calendar.service";
+import { calendarFeedQuerySchema } from "./calendar.schema";
+import { houseIdParamSchema } from "../houses/houses.schema";
+
+export class CalendarController {
+  /**
+   * GET /api/v1/houses/:id/calendar
+   * Get the calendar feed of the current member (creation and last use)
+   */
+  static async getFeed(req: AuthRequest, res: Response): Promise<void> {
+    validateData(houseIdParamSchema, req.params);
+
+    const result = await CalendarService.getFeed(req.houseMember!.id);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  }
+
+  /**
+   * POST /api/v1/houses/:id/calendar
+   * Create the calendar feed of the current member or rotate its token
+   */
+  static async rotateToken(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+
+    const result = await CalendarService.rotateToken(
+      houseId,
+      req.houseMember!.id
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  }
+
+  /**
+   * DELETE /api/v1/houses/:id/calendar
+   * Revoke the calendar feed of the current member
+   */
+  static async revokeFeed(req: AuthRequest, res: Response): Promise<void> {
+    validateData(houseIdParamSchema, req.params);
+
+    await CalendarService.revokeFeed(req.houseMember!.id);
+
+    res.json({
+      success: true,
+      data: { message: "Calendar feed revoked successfully" },
+    });
+  }
+
+  /**
+   * GET /api/v1/houses/:id/calendar.ics?token=...
+   * iCalendar feed read by calendar apps, authenticated by its token
+   */
+  static async getCalendar(req: Request, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const query = validateData(calendarFeedQuerySchema, req.query);
+
+    const calendar = await CalendarService.getCalendar(houseId, query);
+
+    res
+      .type("text/calendar; charset=utf-8")
+      .set("Cache-Control", "private, max-age=300")
+      .send(calendar);
+  }
+}
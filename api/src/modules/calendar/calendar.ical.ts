@@ -0,0 +1,212 @@
+import { TaskPriority } from "@prisma/client";
+import { recurringPatternSchema } from "../tasks/tasks.schema";
+
+// Length of the events in the calendar, starting when the task is due
+const EVENT_DURATION = "PT30M";
+
+// Weekdays in RRULE notation, 0 = Sunday as in recurring patterns
+const RRULE_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// iCalendar priorities: 1 is the highest, 9 the lowest
+const ICAL_PRIORITIES: Record<TaskPriority, number> = {
+  HIGH: 1,
+  MEDIUM: 5,
+  LOW: 9,
+};
+
+/**
+ * Task fields written to the calendar
+ */
+export interface CalendarTask {
+  id: string;
+  title: string;
+  description: string | null;
+  priority: TaskPriority;
+  dueDate: Date | null;
+  recurringPattern: unknown;
+  occurrenceNumber: number;
+  updatedAt: Date;
+  category: { name: string } | null;
+  assignees: { houseMember: { displayName: string } }[];
+}
+
+export type CalendarEntryType = "event" | "todo";
+
+/**
+ * Formats a date as an iCalendar UTC date-time (20231005T143000Z)
+ */
+const formatDateTime = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+/**
+ * Escapes text values (commas, semicolons, backslashes and line breaks)
+ */
+const escapeText = (text: string): string =>
+  text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/**
+ * Folds a content line to 75 octets, continuation lines start with a space
+ * Multi-byte characters are never cut
+ */
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let part = "";
+  let partBytes = 0;
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char);
+    // Continuation lines lose one octet to the leading space
+    const maxBytes = parts.length === 0 ? 75 : 74;
+
+    if (partBytes + charBytes > maxBytes) {
+      parts.push(part);
+      part = "";
+      partBytes = 0;
+    }
+
+    part += char;
+    partBytes += charBytes;
+  }
+
+  parts.push(part);
+
+  return parts.join("\r\n ");
+};
+
+/**
+ * Builds the RRULE of a recurring task, from its current occurrence on
+ * Patterns are computed in UTC like tasks.recurrence.ts, and so is the rule
+ *
+ * @returns The rule value, or null when the task does not recur
+ */
+export const toRRule = (
+  recurringPattern: unknown,
+  occurrenceNumber: number
+): string | null => {
+  const parsed = recurringPatternSchema.safeParse(recurringPattern);
+
+  if (!parsed.success) {
+    return null;
+  }
+
+  const pattern = parsed.data;
+  const parts: string[] = [];
+
+  switch (pattern.frequency) {
+    case "DAILY":
+      parts.push("FREQ=DAILY");
+      break;
+
+    case "INTERVAL":
+      parts.push("FREQ=DAILY", `INTERVAL=${pattern.intervalDays}`);
+      break;
+
+    case "WEEKLY": {
+      const weekdays = pattern.daysOfWeek.map((day) => RRULE_WEEKDAYS[day]);
+      parts.push("FREQ=WEEKLY", `BYDAY=${weekdays.join(",")}`);
+      break;
+    }
+
+    case "MONTHLY": {
+      // Days past the end of a month fall on its last day: the last of
+      // 28..dayOfMonth that exists in the month
+      if (pattern.dayOfMonth <= 28) {
+        parts.push("FREQ=MONTHLY", `BYMONTHDAY=${pattern.dayOfMonth}`);
+      } else {
+        const days = [];
+        for (let day = 28; day <= pattern.dayOfMonth; day++) days.push(day);
+        parts.push(
+          "FREQ=MONTHLY",
+          `BYMONTHDAY=${days.join(",")}`,
+          "BYSETPOS=-1"
+        );
+      }
+      break;
+    }
+  }
+
+  if (pattern.endDate) {
+    parts.push(`UNTIL=${formatDateTime(new Date(pattern.endDate))}`);
+  }
+
+  // The feed starts at the current occurrence, count what is left
+  if (pattern.count) {
+    parts.push(`COUNT=${Math.max(pattern.count - occurrenceNumber + 1, 1)}`);
+  }
+
+  return parts.join(";");
+};
+
+/**
+ * Builds the entry of one task
+ * Events start when the task is due; to-dos carry the due date, and
+ * recurring ones are anchored on it as reminder apps do
+ */
+const toEntryLines = (
+  task: CalendarTask & { dueDate: Date },
+  type: CalendarEntryType
+): string[] => {
+  const rrule = toRRule(task.recurringPattern, task.occurrenceNumber);
+  const assignees = task.assignees.map((a) => a.houseMember.displayName);
+  const description = [
+    task.description,
+    assignees.length > 0 ? `Assigned to: ${assignees.join(", ")}` : null,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  const component = type === "event" ? "VEVENT" : "VTODO";
+
+  return [
+    `BEGIN:${component}`,
+    `UID:task-${task.id}@mehouse`,
+    `DTSTAMP:${formatDateTime(task.updatedAt)}`,
+    `LAST-MODIFIED:${formatDateTime(task.updatedAt)}`,
+    ...(type === "event"
+      ? [
+          `DTSTART:${formatDateTime(task.dueDate)}`,
+          `DURATION:${EVENT_DURATION}`,
+        ]
+      : [`DUE:${formatDateTime(task.dueDate)}`, "STATUS:NEEDS-ACTION"]),
+    ...(rrule ? [`RRULE:${rrule}`] : []),
+    `SUMMARY:${escapeText(task.title)}`,
+    ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+    ...(task.category ? [`CATEGORIES:${escapeText(task.category.name)}`] : []),
+    `PRIORITY:${ICAL_PRIORITIES[task.priority]}`,
+    `END:${component}`,
+  ];
+};
+
+/**
+ * Builds the iCalendar document (RFC 5545) of a house's tasks
+ * Tasks without due date are left out
+ */
+export const toICalendar = (
+  calendarName: string,
+  tasks: CalendarTask[],
+  type: CalendarEntryType
+): string => {
+  const entries = tasks.flatMap((task) =>
+    task.dueDate ? toEntryLines({ ...task, dueDate: task.dueDate }, type) : []
+  );
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//MeHouse//House Tasks//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    // Hint for calendar apps to fetch the feed again every hour
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    ...entries,
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
@@ -0,0 +1,36 @@
+import { Router } from "express";
+import { CalendarController } from "./calendar.controller";
+import { authenticate } from "../../shared/middleware/auth.middleware";
+import { requireHouseMember } from "../../shared/middleware/houses.middleware";
+
+const router = Router();
+
+// House ID is passed as :id parameter
+
+// Feed routes read by calendar apps, the token in the URL is the only
+// credential (calendar apps cannot send a bearer token)
+router.get("/:id/calendar.ics", CalendarController.getCalendar);
+
+// Feed management routes require authentication and house membership
+router.get(
+  "/:id/calendar",
+  authenticate,
+  requireHouseMember,
+  CalendarController.getFeed
+);
+
+router.post(
+  "/:id/calendar",
+  authenticate,
+  requireHouseMember,
+  CalendarController.rotateToken
+);
+
+router.delete(
+  "/:id/calendar",
+  authenticate,
+  requireHouseMember,
+  CalendarController.revokeFeed
+);
+
+export default router;
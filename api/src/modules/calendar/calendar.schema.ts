@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+// Schema for calendar feed query parameters (read by calendar apps)
+export const calendarFeedQuerySchema = z.object({
+  token: z
+    .string()
+    .min(1, "Calendar token is required")
+    .max(100, "Invalid calendar token"),
+  // Only the tasks assigned to the member who owns the feed
+  assigned: z.string().transform(val => val === "true").optional(),
+  // Calendar events (default) or to-dos for reminder apps
+  type: z.enum(["event", "todo"]).default("event"),
+});
+
+// Type exports for TypeScript
+export type CalendarFeedQueryInput = z.infer<typeof calendarFeedQuerySchema>;
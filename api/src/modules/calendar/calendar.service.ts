@@ -0,0 +1,123 @@
+import { PrismaClient } from "@prisma/client";
+import { NotFoundError } from "../../shared/errors/AppError";
+import { generateOpaqueToken, hashToken } from "../../shared/utils/tokens";
+import { toICalendar } from "./calendar.ical";
+import { CalendarFeedQueryInput } from "./calendar.schema";
+
+const prisma = new PrismaClient();
+
+// Most tasks written to a feed, the ones due first
+const MAX_FEED_TASKS = 500;
+
+const feedSelect = {
+  createdAt: true,
+  lastUsedAt: true,
+} as const;
+
+export class CalendarService {
+  /**
+   * Get the calendar feed of a member, without its token (only its hash is
+   * stored, the URL is shown once when created)
+   */
+  static async getFeed(memberId: string) {
+    const feed = await prisma.calendarFeed.findUnique({
+      where: { memberId },
+      select: feedSelect,
+    });
+
+    return { feed };
+  }
+
+  /**
+   * Create the calendar feed of a member, or replace its token
+   * The previous URL stops working right away
+   */
+  static async rotateToken(houseId: string, memberId: string) {
+    const token = generateOpaqueToken();
+    const tokenHash = hashToken(token);
+
+    const feed = await prisma.calendarFeed.upsert({
+      where: { memberId },
+      create: { tokenHash, memberId },
+      update: { tokenHash, createdAt: new Date(), lastUsedAt: null },
+      select: feedSelect,
+    });
+
+    const url =
+      `${process.env.PUBLIC_URL || ""}/api/v1/houses/${houseId}` +
+      `/calendar.ics?token=${token}`;
+
+    return { url, feed };
+  }
+
+  /**
+   * Delete the calendar feed of a member, its URL stops working
+   */
+  static async revokeFeed(memberId: string) {
+    const { count } = await prisma.calendarFeed.deleteMany({
+      where: { memberId },
+    });
+
+    if (count === 0) {
+      throw new NotFoundError("Calendar feed not found");
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Build the iCalendar document of a house for the owner of a feed token
+   * Pending tasks with a due date are included, recurring ones with their
+   * recurrence rule
+   *
+   * @throws NotFoundError when the token is unknown or for another house
+   */
+  static async getCalendar(houseId: string, query: CalendarFeedQueryInput) {
+    const feed = await prisma.calendarFeed.findUnique({
+      where: { tokenHash: hashToken(query.token) },
+      include: {
+        member: {
+          select: {
+            id: true,
+            houseId: true,
+            house: { select: { name: true } },
+          },
+        },
+      },
+    });
+
+    // Same answer for unknown tokens and other houses
+    if (!feed || feed.member.houseId !== houseId) {
+      throw new NotFoundError("Calendar feed not found");
+    }
+
+    const [tasks] = await Promise.all([
+      prisma.task.findMany({
+        where: {
+          houseId,
+          status: "PENDING",
+          dueDate: { not: null },
+          ...(query.assigned && {
+            assignees: { some: { houseMemberId: feed.member.id } },
+          }),
+        },
+        include: {
+          category: { select: { name: true } },
+          assignees: {
+            select: {
+              houseMember: { select: { displayName: true } },
+            },
+          },
+        },
+        orderBy: [{ dueDate: "asc" }, { id: "asc" }],
+        take: MAX_FEED_TASKS,
+      }),
+      prisma.calendarFeed.update({
+        where: { id: feed.id },
+        data: { lastUsedAt: new Date() },
+      }),
+    ]);
+
+    return toICalendar(feed.member.house.name, tasks, query.type);
+  }
+}
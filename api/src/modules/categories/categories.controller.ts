@@ -0,0 +1,105 @@
+import { Response } from "express";
+import { AuthRequest } from "../../shared/middleware/auth.middleware";
+import { validateData } from "../../shared/utils/validation";
+import { CategoryService } from "./categories.service";
+import {
+  createCategorySchema,
+  updateCategorySchema,
+  categoryIdParamSchema,
+} from "./categories.schema";
+import { houseIdParamSchema } from "../houses/houses.schema";
+
+export class CategoryController {
+  /**
+   * POST /api/v1/houses/:id/categories
+   * Create a new category (owner required)
+   */
+  static async createCategory(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const categoryData = validateData(createCategorySchema, req.body);
+
+    const category = await CategoryService.createCategory(
+      houseId,
+      categoryData
+    );
+
+    res.status(201).json({
+      success: true,
+      data: { category },
+    });
+  }
+
+  /**
+   * GET /api/v1/houses/:id/categories
+   * Get house categories with task counts
+   */
+  static async getHouseCategories(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+
+    const categories = await CategoryService.getHouseCategories(houseId);
+
+    res.json({
+      success: true,
+      data: { categories },
+    });
+  }
+
+  /**
+   * GET /api/v1/houses/:id/categories/:categoryId
+   * Get specific category by ID
+   */
+  static async getCategoryById(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const { categoryId } = validateData(categoryIdParamSchema, req.params);
+
+    const category = await CategoryService.getCategoryById(
+      categoryId,
+      houseId
+    );
+
+    res.json({
+      success: true,
+      data: { category },
+    });
+  }
+
+  /**
+   * PUT /api/v1/houses/:id/categories/:categoryId
+   * Update a category (owner required)
+   */
+  static async updateCategory(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const { categoryId } = validateData(categoryIdParamSchema, req.params);
+    const updateData = validateData(updateCategorySchema, req.body);
+
+    const category = await CategoryService.updateCategory(
+      categoryId,
+      houseId,
+      updateData
+    );
+
+    res.json({
+      success: true,
+      data: { category },
+    });
+  }
+
+  /**
+   * DELETE /api/v1/houses/:id/categories/:categoryId
+   * Delete a category (owner required)
+   */
+  static async deleteCategory(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const { categoryId } = validateData(categoryIdParamSchema, req.params);
+
+    await CategoryService.deleteCategory(categoryId, houseId);
+
+    res.json({
+      success: true,
+      data: { message: "Category deleted successfully" },
+    });
+  }
+}
@@ -0,0 +1,52 @@
+import { Router } from "express";
+import { CategoryController } from "./categories.controller";
+import { authenticate } from "../../shared/middleware/auth.middleware";
+import {
+  requireHouseMember,
+  requireOwner,
+} from "../../shared/middleware/houses.middleware";
+
+const router = Router();
+
+// All category routes require authentication and house membership
+// House ID is passed as :id parameter, category ID as :categoryId
+
+router.post(
+  "/:id/categories",
+  authenticate,
+  requireHouseMember,
+  requireOwner,
+  CategoryController.createCategory
+);
+
+router.get(
+  "/:id/categories",
+  authenticate,
+  requireHouseMember,
+  CategoryController.getHouseCategories
+);
+
+router.get(
+  "/:id/categories/:categoryId",
+  authenticate,
+  requireHouseMember,
+  CategoryController.getCategoryById
+);
+
+router.put(
+  "/:id/categories/:categoryId",
+  authenticate,
+  requireHouseMember,
+  requireOwner,
+  CategoryController.updateCategory
+);
+
+router.delete(
+  "/:id/categories/:categoryId",
+  authenticate,
+  requireHouseMember,
+  requireOwner,
+  CategoryController.deleteCategory
+);
+
+export default router;
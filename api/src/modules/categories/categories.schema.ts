@@ -0,0 +1,46 @@
+import { z } from "zod";
+
+// Category name validation: 1-30 chars
+const categoryNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Category name is required")
+  .max(30, "Category name must be at most 30 characters");
+
+// Category color validation: hex color like "#FF5733"
+const categoryColorSchema = z
+  .string()
+  .trim()
+  .regex(/^#[0-9A-Fa-f]{6}$/, "Color must be a hex color (e.g. #FF5733)")
+  .transform((color) => color.toUpperCase());
+
+// Default effort points validation: whole number from 1 to 100
+const categoryDefaultPointsSchema = z
+  .number()
+  .int("Default points must be a whole number")
+  .min(1, "Default points must be at least 1")
+  .max(100, "Default points must be at most 100");
+
+// Schema for creating a new category
+export const createCategorySchema = z.object({
+  name: categoryNameSchema,
+  color: categoryColorSchema.optional(),
+  defaultPoints: categoryDefaultPointsSchema.optional(),
+});
+
+// Schema for updating a category (null color clears it)
+export const updateCategorySchema = z.object({
+  name: categoryNameSchema.optional(),
+  color: categoryColorSchema.nullable().optional(),
+  defaultPoints: categoryDefaultPointsSchema.optional(),
+});
+
+// Schema for category ID parameter validation
+export const categoryIdParamSchema = z.object({
+  categoryId: z.string().uuid("Invalid category ID format"),
+});
+
+// Type exports for TypeScript
+export type CreateCategoryInput = z.infer<typeof createCategorySchema>;
+export type UpdateCategoryInput = z.infer<typeof updateCategorySchema>;
+export type CategoryIdParam = z.infer<typeof categoryIdParamSchema>;
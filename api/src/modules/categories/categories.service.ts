@@ -0,0 +1,117 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import { ConflictError, NotFoundError } from "../../shared/errors/AppError";
+import { isUniqueConstraintError } from "../../shared/utils/prisma";
+import { CreateCategoryInput, UpdateCategoryInput } from "./categories.schema";
+
+const prisma = new PrismaClient();
+
+const categoryInclude = {
+  _count: {
+    select: {
+      tasks: true,
+    },
+  },
+} satisfies Prisma.CategoryInclude;
+
+export class CategoryService {
+  /**
+   * Create a new category in a house
+   */
+  static async createCategory(houseId: string, data: CreateCategoryInput) {
+    try {
+      return await prisma.category.create({
+        data: {
+          name: data.name,
+          color: data.color,
+          defaultPoints: data.defaultPoints,
+          houseId,
+        },
+        include: categoryInclude,
+      });
+    } catch (error) {
+      throw this.mapConflictError(error);
+    }
+  }
+
+  /**
+   * Get all categories of a house with their task counts
+   */
+  static async getHouseCategories(houseId: string) {
+    const categories = await prisma.category.findMany({
+      where: { houseId },
+      include: categoryInclude,
+      orderBy: { name: "asc" },
+    });
+
+    return categories;
+  }
+
+  /**
+   * Get a specific category by ID
+   */
+  static async getCategoryById(categoryId: string, houseId: string) {
+    const category = await prisma.category.findFirst({
+      where: {
+        id: categoryId,
+        houseId,
+      },
+      include: categoryInclude,
+    });
+
+    if (!category) {
+      throw new NotFoundError("Category not found");
+    }
+
+    return category;
+  }
+
+  /**
+   * Update a category (rename and/or recolor)
+   */
+  static async updateCategory(
+    categoryId: string,
+    houseId: string,
+    data: UpdateCategoryInput
+  ) {
+    await this.getCategoryById(categoryId, houseId);
+
+    try {
+      return await prisma.category.update({
+        where: { id: categoryId },
+        data: {
+          ...(data.name && { name: data.name }),
+          ...(data.color !== undefined && { color: data.color }),
+          ...(data.defaultPoints && { defaultPoints: data.defaultPoints }),
+        },
+        include: categoryInclude,
+      });
+    } catch (error) {
+      throw this.mapConflictError(error);
+    }
+  }
+
+  /**
+   * Delete a category (tasks in it become uncategorized)
+   */
+  static async deleteCategory(categoryId: string, houseId: string) {
+    await this.getCategoryById(categoryId, houseId);
+
+    await prisma.category.delete({
+      where: { id: categoryId },
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Helper method to map the name uniqueness constraint to a ConflictError
+   */
+  private static mapConflictError(error: unknown): unknown {
+    if (isUniqueConstraintError(error)) {
+      return new ConflictError("Category already exists", {
+        name: "A category with this name already exists in this house",
+      });
+    }
+    return error;
+  }
+}
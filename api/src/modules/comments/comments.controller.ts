@@ -0,0 +1,103 @@
+import { Response } from "express";
+import { AuthRequest } from "../../shared/middleware/auth.middleware";
+import { validateData } from "../../shared/utils/validation";
+import { CommentService } from "./comments.service";
+import {
+  createCommentSchema,
+  updateCommentSchema,
+  commentListSchema,
+  commentIdParamSchema,
+} from "./comments.schema";
+import { houseIdParamSchema } from "../houses/houses.schema";
+import { taskIdParamSchema } from "../tasks/tasks.schema";
+
+export class CommentController {
+  /**
+   * GET /api/v1/houses/:id/tasks/:taskId/comments
+   * Get task comments (cursor pagination)
+   */
+  static async getTaskComments(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const { taskId } = validateData(taskIdParamSchema, req.params);
+    const filters = validateData(commentListSchema, req.query);
+
+    const result = await CommentService.getTaskComments(
+      houseId,
+      taskId,
+      filters
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  }
+
+  /**
+   * POST /api/v1/houses/:id/tasks/:taskId/comments
+   * Add a comment to a task
+   */
+  static async createComment(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const { taskId } = validateData(taskIdParamSchema, req.params);
+    const commentData = validateData(createCommentSchema, req.body);
+
+    const comment = await CommentService.createComment(
+      houseId,
+      taskId,
+      req.houseMember!.id,
+      commentData
+    );
+
+    res.status(201).json({
+      success: true,
+      data: { comment },
+    });
+  }
+
+  /**
+   * PUT /api/v1/houses/:id/tasks/:taskId/comments/:commentId
+   * Edit own comment
+   */
+  static async updateComment(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const { taskId } = validateData(taskIdParamSchema, req.params);
+    const { commentId } = validateData(commentIdParamSchema, req.params);
+    const updateData = validateData(updateCommentSchema, req.body);
+
+    const comment = await CommentService.updateComment(
+      houseId,
+      taskId,
+      commentId,
+      req.houseMember!.id,
+      updateData
+    );
+
+    res.json({
+      success: true,
+      data: { comment },
+    });
+  }
+
+  /**
+   * DELETE /api/v1/houses/:id/tasks/:taskId/comments/:commentId
+   * Delete a comment (author or house owner)
+   */
+  static async deleteComment(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const { taskId } = validateData(taskIdParamSchema, req.params);
+    const { commentId } = validateData(commentIdParamSchema, req.params);
+
+    await CommentService.deleteComment(
+      houseId,
+      taskId,
+      commentId,
+      req.houseMember!
+    );
+
+    res.json({
+      success: true,
+      data: { message: "Comment deleted successfully" },
+    });
+  }
+}
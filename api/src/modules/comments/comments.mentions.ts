@@ -0,0 +1,48 @@
+// Characters that can continue a name, so "@Al" does not match inside "@Alex"
+const NAME_CHAR = /[\p{L}\p{N}_]/u;
+
+interface MentionableMember {
+  id: string;
+  displayName: string;
+}
+
+/**
+ * Finds the house members mentioned as "@displayName" in a comment
+ * Matching is case-insensitive and longer names win, so "@Mom Jr" is not
+ * also read as "@Mom" (display names may contain spaces)
+ *
+ * @param content - Comment text
+ * @param members - Members of the house
+ * @returns IDs of mentioned members, without duplicates
+ */
+export const findMentionedMemberIds = (
+  content: string,
+  members: MentionableMember[]
+): string[] => {
+  const text = content.toLowerCase();
+  const claimed = new Array<boolean>(text.length).fill(false);
+  const mentioned = new Set<string>();
+
+  const byLongestName = [...members].sort(
+    (a, b) => b.displayName.length - a.displayName.length
+  );
+
+  for (const member of byLongestName) {
+    const token = `@${member.displayName.toLowerCase()}`;
+    let index = text.indexOf(token);
+
+    while (index !== -1) {
+      const end = index + token.length;
+      const nextChar = text[end];
+
+      if (!claimed[index] && (!nextChar || !NAME_CHAR.test(nextChar))) {
+        mentioned.add(member.id);
+        claimed.fill(true, index, end);
+      }
+
+      index = text.indexOf(token, index + 1);
+    }
+  }
+
+  return [...mentioned];
+};
@@ -0,0 +1,39 @@
+import { Router } from "express";
+import { CommentController } from "./comments.controller";
+import { authenticate } from "../../shared/middleware/auth.middleware";
+import { requireHouseMember } from "../../shared/middleware/houses.middleware";
+
+const router = Router();
+
+// All comment routes require authentication and house membership
+// House ID is passed as :id parameter, task ID as :taskId, comment ID as :commentId
+
+router.get(
+  "/:id/tasks/:taskId/comments",
+  authenticate,
+  requireHouseMember,
+  CommentController.getTaskComments
+);
+
+router.post(
+  "/:id/tasks/:taskId/comments",
+  authenticate,
+  requireHouseMember,
+  CommentController.createComment
+);
+
+router.put(
+  "/:id/tasks/:taskId/comments/:commentId",
+  authenticate,
+  requireHouseMember,
+  CommentController.updateComment
+);
+
+router.delete(
+  "/:id/tasks/:taskId/comments/:commentId",
+  authenticate,
+  requireHouseMember,
+  CommentController.deleteComment
+);
+
+export default router;
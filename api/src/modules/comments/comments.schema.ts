@@ -0,0 +1,38 @@
+import { z } from "zod";
+
+// Comment content validation: 1-1000 chars
+const commentContentSchema = z
+  .string()
+  .trim()
+  .min(1, "Comment cannot be empty")
+  .max(1000, "Comment must be at most 1000 characters");
+
+// Schema for creating a comment
+export const createCommentSchema = z.object({
+  content: commentContentSchema,
+});
+
+// Schema for editing a comment
+export const updateCommentSchema = z.object({
+  content: commentContentSchema,
+});
+
+// Schema for comment list query parameters (cursor = last comment ID received)
+export const commentListSchema = z.object({
+  cursor: z.string().uuid({ message: "Invalid cursor" }).optional(),
+  limit: z
+    .string()
+    .transform((val) => Math.max(Math.min(parseInt(val) || 20, 50), 1))
+    .optional(),
+});
+
+// Schema for comment ID parameter validation
+export const commentIdParamSchema = z.object({
+  commentId: z.string().uuid({ message: "Invalid comment ID format" }),
+});
+
+// Type exports for TypeScript
+export type CreateCommentInput = z.infer<typeof createCommentSchema>;
+export type UpdateCommentInput = z.infer<typeof updateCommentSchema>;
+export type CommentListInput = z.infer<typeof commentListSchema>;
+export type CommentIdParam = z.infer<typeof commentIdParamSchema>;
@@ -0,0 +1,252 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import { ForbiddenError, NotFoundError } from "../../shared/errors/AppError";
+import {
+  CommentListInput,
+  CreateCommentInput,
+  UpdateCommentInput,
+} from "./comments.schema";
+import { findMentionedMemberIds } from "./comments.mentions";
+import { NotificationDispatcher } from "../notifications/notifications.dispatcher";
+
+const prisma = new PrismaClient();
+
+const commentInclude = {
+  author: {
+    select: {
+      id: true,
+      displayName: true,
+      user: {
+        select: {
+          id: true,
+          avatar: true,
+        },
+      },
+    },
+  },
+  mentions: {
+    select: {
+      houseMember: {
+        select: {
+          id: true,
+          displayName: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.TaskCommentInclude;
+
+export class CommentService {
+  /**
+   * Get comments of a task, oldest first, one page after the cursor
+   */
+  static async getTaskComments(
+    houseId: string,
+    taskId: string,
+    filters: CommentListInput
+  ) {
+    const { cursor, limit = 20 } = filters;
+
+    await this.assertTaskInHouse(taskId, houseId);
+
+    // Fetch one extra comment to know if there is a next page
+    const comments = await prisma.taskComment.findMany({
+      where: { taskId },
+      include: commentInclude,
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      take: limit + 1,
+      ...(cursor && {
+        cursor: { id: cursor },
+        skip: 1,
+      }),
+    });
+
+    const hasMore = comments.length > limit;
+    const page = hasMore ? comments.slice(0, limit) : comments;
+
+    return {
+      comments: page,
+      pagination: {
+        limit,
+        nextCursor: hasMore ? page[page.length - 1]!.id : null,
+      },
+    };
+  }
+
+  /**
+   * Add a comment to a task and record the members it mentions
+   */
+  static async createComment(
+    houseId: string,
+    taskId: string,
+    authorId: string,
+    data: CreateCommentInput
+  ) {
+    await this.assertTaskInHouse(taskId, houseId);
+
+    const mentionedIds = await this.getMentionedMemberIds(
+      houseId,
+      authorId,
+      data.content
+    );
+
+    const comment = await prisma.taskComment.create({
+      data: {
+        content: data.content,
+        taskId,
+        authorId,
+        mentions: {
+          create: mentionedIds.map((houseMemberId) => ({ houseMemberId })),
+        },
+      },
+      include: commentInclude,
+    });
+
+    NotificationDispatcher.mentioned(comment, mentionedIds, authorId);
+
+    return comment;
+  }
+
+  /**
+   * Edit a comment (author only), mentions are parsed again
+   * Only members mentioned for the first time are notified
+   */
+  static async updateComment(
+    houseId: string,
+    taskId: string,
+    commentId: string,
+    currentMemberId: string,
+    data: UpdateCommentInput
+  ) {
+    const comment = await this.getComment(houseId, taskId, commentId);
+
+    if (comment.authorId !== currentMemberId) {
+      throw new ForbiddenError("You can only edit your own comments");
+    }
+
+    const mentionedIds = await this.getMentionedMemberIds(
+      houseId,
+      currentMemberId,
+      data.content
+    );
+
+    const previousMentions = await prisma.taskCommentMention.findMany({
+      where: { commentId },
+      select: { houseMemberId: true },
+    });
+
+    const updatedComment = await prisma.taskComment.update({
+      where: { id: commentId },
+      data: {
+        content: data.content,
+        editedAt: new Date(),
+        mentions: {
+          deleteMany: {},
+          create: mentionedIds.map((houseMemberId) => ({ houseMemberId })),
+        },
+      },
+      include: commentInclude,
+    });
+
+    const newMentionIds = mentionedIds.filter(
+      (id) => !previousMentions.some((m) => m.houseMemberId === id)
+    );
+
+    NotificationDispatcher.mentioned(
+      updatedComment,
+      newMentionIds,
+      currentMemberId
+    );
+
+    return updatedComment;
+  }
+
+  /**
+   * Delete a comment (author or house owner)
+   */
+  static async deleteComment(
+    houseId: string,
+    taskId: string,
+    commentId: string,
+    currentMember: { id: string; role: string }
+  ) {
+    const comment = await this.getComment(houseId, taskId, commentId);
+
+    const canDelete =
+      comment.authorId === currentMember.id || currentMember.role === "OWNER";
+
+    if (!canDelete) {
+      throw new ForbiddenError(
+        "Only comment author or house owner can delete this comment"
+      );
+    }
+
+    await prisma.taskComment.delete({
+      where: { id: commentId },
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Helper method to get a comment of a task in a house
+   */
+  private static async getComment(
+    houseId: string,
+    taskId: string,
+    commentId: string
+  ) {
+    const comment = await prisma.taskComment.findFirst({
+      where: {
+        id: commentId,
+        taskId,
+        task: { houseId },
+      },
+    });
+
+    if (!comment) {
+      throw new NotFoundError("Comment not found");
+    }
+
+    return comment;
+  }
+
+  /**
+   * Helper method to make sure a task belongs to the house
+   */
+  private static async assertTaskInHouse(taskId: string, houseId: string) {
+    const task = await prisma.task.findFirst({
+      where: {
+        id: taskId,
+        houseId,
+      },
+      select: { id: true },
+    });
+
+    if (!task) {
+      throw new NotFoundError("Task not found");
+    }
+  }
+
+  /**
+   * Helper method to resolve @mentions against house display names
+   * Authors mentioning themselves are ignored
+   */
+  private static async getMentionedMemberIds(
+    houseId: string,
+    authorId: string,
+    content: string
+  ) {
+    const members = await prisma.houseMember.findMany({
+      where: {
+        houseId,
+        id: { not: authorId },
+      },
+      select: {
+        id: true,
+        displayName: true,
+      },
+    });
+
+    return findMentionedMemberIds(content, members);
+  }
+}
@@ -0,0 +1,237 @@
+import { ExpenseSplitType, Prisma } from "@prisma/client";
+import { ExpenseSplitInput } from "./expenses.schema";
+
+/**
+ * Part of an expense owed by one member
+ */
+export interface SplitPart {
+  memberId: string;
+  amount: number;
+  shares: number | null;
+}
+
+/**
+ * Money position of a member in one currency
+ * balance = paid - owed + sent - received: positive when the house owes them
+ */
+export interface MemberBalance {
+  memberId: string;
+  currency: string;
+  paid: number; // Expenses paid for the house
+  owed: number; // Parts of expenses
+  sent: number; // Settlements paid to other members
+  received: number; // Settlements received from other members
+  balance: number;
+}
+
+/**
+ * Transfer that settles part of the balances
+ */
+export interface SettlementStep {
+  fromId: string;
+  toId: string;
+  amount: number;
+}
+
+interface BalanceRow {
+  memberId: string;
+  currency: string;
+  paid: bigint;
+  owed: bigint;
+  sent: bigint;
+  received: bigint;
+}
+
+/**
+ * Splits an amount in whole minor units proportionally to weights
+ * Leftover units go to the largest remainders, then to the first weights
+ * (10.00 for 3 equal weights gives 3.34, 3.33 and 3.33)
+ */
+export const allocateAmount = (amount: number, weights: number[]): number[] => {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const parts = weights.map((weight) =>
+    Math.floor((amount * weight) / totalWeight)
+  );
+  const leftover = amount - parts.reduce((sum, part) => sum + part, 0);
+
+  weights
+    .map((weight, index) => ({
+      index,
+      remainder: (amount * weight) % totalWeight,
+    }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+    .slice(0, leftover)
+    .forEach(({ index }) => {
+      parts[index] = (parts[index] ?? 0) + 1;
+    });
+
+  return parts;
+};
+
+/**
+ * Computes the part of each member from a split request
+ *
+ * @param amount - Expense amount in minor units
+ * @param split - Validated split, EQUAL without members uses defaultMemberIds
+ * @param defaultMemberIds - Members of the house, in join order
+ */
+export const getSplitParts = (
+  amount: number,
+  split: ExpenseSplitInput,
+  defaultMemberIds: string[]
+): SplitPart[] => {
+  switch (split.type) {
+    case "EQUAL": {
+      const memberIds = split.memberIds ?? defaultMemberIds;
+      const amounts = allocateAmount(amount, memberIds.map(() => 1));
+
+      return memberIds.map((memberId, index) => ({
+        memberId,
+        amount: amounts[index] ?? 0,
+        shares: 1,
+      }));
+    }
+    case "SHARES": {
+      const amounts = allocateAmount(
+        amount,
+        split.shares.map((s) => s.shares)
+      );
+
+      return split.shares.map(({ memberId, shares }, index) => ({
+        memberId,
+        amount: amounts[index] ?? 0,
+        shares,
+      }));
+    }
+    case "EXACT":
+      return split.amounts.map(({ memberId, amount: part }) => ({
+        memberId,
+        amount: part,
+        shares: null,
+      }));
+  }
+};
+
+/**
+ * Rebuilds the split request of a stored expense, to apply a new amount
+ * EXACT splits cannot follow a new amount and return null
+ */
+export const toSplitInput = (
+  splitType: ExpenseSplitType,
+  parts: { memberId: string; shares: number | null }[]
+): ExpenseSplitInput | null => {
+  if (splitType === "EXACT") {
+    return null;
+  }
+
+  const memberParts = parts.map(({ memberId, shares }) => ({
+    memberId,
+    shares: shares ?? 1,
+  }));
+
+  return splitType === "EQUAL"
+    ? { type: "EQUAL", memberIds: memberParts.map((p) => p.memberId) }
+    : { type: "SHARES", shares: memberParts };
+};
+
+/**
+ * Computes the balances of the members of a house, per currency
+ * Amounts of former members are ignored: they settle up before leaving
+ *
+ * @param memberId - Only this member's balances when given
+ */
+export const getBalances = async (
+  db: Prisma.TransactionClient,
+  houseId: string,
+  memberId?: string
+): Promise<MemberBalance[]> => {
+  const rows = await db.$queryRaw<BalanceRow[]>`
+    SELECT
+      entries."memberId",
+      entries."currency",
+      SUM(entries."paid")::bigint AS "paid",
+      SUM(entries."owed")::bigint AS "owed",
+      SUM(entries."sent")::bigint AS "sent",
+      SUM(entries."received")::bigint AS "received"
+    FROM (
+      SELECT e."paidById" AS "memberId", e."currency",
+        e."amount" AS "paid", 0 AS "owed", 0 AS "sent", 0 AS "received"
+      FROM "public"."expenses" e
+      WHERE e."houseId" = ${houseId}
+      UNION ALL
+      SELECT es."memberId", e."currency", 0, es."amount", 0, 0
+      FROM "public"."expense_splits" es
+      JOIN "public"."expenses" e ON e."id" = es."expenseId"
+      WHERE e."houseId" = ${houseId}
+      UNION ALL
+      SELECT s."fromId", s."currency", 0, 0, s."amount", 0
+      FROM "public"."settlements" s
+      WHERE s."houseId" = ${houseId}
+      UNION ALL
+      SELECT s."toId", s."currency", 0, 0, 0, s."amount"
+      FROM "public"."settlements" s
+      WHERE s."houseId" = ${houseId}
+    ) entries
+    WHERE entries."memberId" IS NOT NULL
+    ${memberId ? Prisma.sql`AND entries."memberId" = ${memberId}` : Prisma.empty}
+    GROUP BY entries."memberId", entries."currency"
+  `;
+
+  return rows.map((row) => {
+    const paid = Number(row.paid);
+    const owed = Number(row.owed);
+    const sent = Number(row.sent);
+    const received = Number(row.received);
+
+    return {
+      memberId: row.memberId,
+      currency: row.currency,
+      paid,
+      owed,
+      sent,
+      received,
+      balance: paid - owed + sent - received,
+    };
+  });
+};
+
+/**
+ * Plans the transfers that bring every balance of one currency to zero
+ * The largest debtor pays the largest creditor until one of them is even,
+ * which settles n members in at most n - 1 transfers
+ */
+export const getSettlementPlan = (
+  balances: { memberId: string; balance: number }[]
+): SettlementStep[] => {
+  const byAmount = (a: { amount: number }, b: { amount: number }) =>
+    b.amount - a.amount;
+
+  const creditors = balances
+    .filter((b) => b.balance > 0)
+    .map((b) => ({ memberId: b.memberId, amount: b.balance }))
+    .sort(byAmount);
+  const debtors = balances
+    .filter((b) => b.balance < 0)
+    .map((b) => ({ memberId: b.memberId, amount: -b.balance }))
+    .sort(byAmount);
+
+  const steps: SettlementStep[] = [];
+  let creditorIndex = 0;
+  let debtorIndex = 0;
+
+  while (creditorIndex < creditors.length && debtorIndex < debtors.length) {
+    const creditor = creditors[creditorIndex]!;
+    const debtor = debtors[debtorIndex]!;
+    const amount = Math.min(creditor.amount, debtor.amount);
+
+    steps.push({ fromId: debtor.memberId, toId: creditor.memberId, amount });
+
+    creditor.amount -= amount;
+    debtor.amount -= amount;
+
+    if (creditor.amount === 0) creditorIndex++;
+    if (debtor.amount === 0) debtorIndex++;
+  }
+
+  return steps;
+};
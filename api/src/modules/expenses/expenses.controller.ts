@@ -0,0 +1,192 @@
+import { Response } from "express";
+import { AuthRequest } from "../../shared/middleware/auth.middleware";
+import { validateData } from "../../shared/utils/validation";
+import { ExpenseService } from "./expenses.service";
+import {
+  createExpenseSchema,
+  updateExpenseSchema,
+  expenseListSchema,
+  createSettlementSchema,
+  settlementListSchema,
+  expenseIdParamSchema,
+  settlementIdParamSchema,
+} from "./expenses.schema";
+import { houseIdParamSchema } from "../houses/houses.schema";
+
+export class ExpenseController {
+  /**
+   * GET /api/v1/houses/:id/expenses
+   * Get house expenses with their splits
+   */
+  static async getHouseExpenses(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const query = validateData(expenseListSchema, req.query);
+
+    const result = await ExpenseService.getHouseExpenses(houseId, query);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  }
+
+  /**
+   * POST /api/v1/houses/:id/expenses
+   * Record an expense and split it between members
+   */
+  static async createExpense(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const expenseData = validateData(createExpenseSchema, req.body);
+
+    const expense = await ExpenseService.createExpense(
+      houseId,
+      req.houseMember!.id,
+      expenseData
+    );
+
+    res.status(201).json({
+      success: true,
+      data: { expense },
+    });
+  }
+
+  /**
+   * GET /api/v1/houses/:id/expenses/:expenseId
+   * Get an expense with its split
+   */
+  static async getExpenseById(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const { expenseId } = validateData(expenseIdParamSchema, req.params);
+
+    const expense = await ExpenseService.getExpenseById(expenseId, houseId);
+
+    res.json({
+      success: true,
+      data: { expense },
+    });
+  }
+
+  /**
+   * PUT /api/v1/houses/:id/expenses/:expenseId
+   * Edit an expense or its split
+   */
+  static async updateExpense(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const { expenseId } = validateData(expenseIdParamSchema, req.params);
+    const updateData = validateData(updateExpenseSchema, req.body);
+
+    const expense = await ExpenseService.updateExpense(
+      expenseId,
+      houseId,
+      req.houseMember!,
+      updateData
+    );
+
+    res.json({
+      success: true,
+      data: { expense },
+    });
+  }
+
+  /**
+   * DELETE /api/v1/houses/:id/expenses/:expenseId
+   * Delete an expense
+   */
+  static async deleteExpense(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const { expenseId } = validateData(expenseIdParamSchema, req.params);
+
+    await ExpenseService.deleteExpense(expenseId, houseId, req.houseMember!);
+
+    res.json({
+      success: true,
+      data: { message: "Expense deleted successfully" },
+    });
+  }
+
+  /**
+   * GET /api/v1/houses/:id/balances
+   * Get member balances per currency and who should pay whom
+   */
+  static async getHouseBalances(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+
+    const result = await ExpenseService.getHouseBalances(houseId);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  }
+
+  /**
+   * GET /api/v1/houses/:id/settlements
+   * Get money paid back between members
+   */
+  static async getHouseSettlements(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const query = validateData(settlementListSchema, req.query);
+
+    const result = await ExpenseService.getHouseSettlements(houseId, query);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  }
+
+  /**
+   * POST /api/v1/houses/:id/settlements
+   * Record money paid back to another member
+   */
+  static async createSettlement(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const settlementData = validateData(createSettlementSchema, req.body);
+
+    const settlement = await ExpenseService.createSettlement(
+      houseId,
+      req.houseMember!,
+      settlementData
+    );
+
+    res.status(201).json({
+      success: true,
+      data: { settlement },
+    });
+  }
+
+  /**
+   * DELETE /api/v1/houses/:id/settlements/:settlementId
+   * Delete a settlement recorded by mistake
+   */
+  static async deleteSettlement(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const { settlementId } = validateData(settlementIdParamSchema, req.params);
+
+    await ExpenseService.deleteSettlement(
+      settlementId,
+      houseId,
+      req.houseMember!
+    );
+
+    res.json({
+      success: true,
+      data: { message: "Settlement deleted successfully" },
+    });
+  }
+}
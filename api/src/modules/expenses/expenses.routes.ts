@@ -0,0 +1,78 @@
+import { Router } from "express";
+import { ExpenseController } from "./expenses.controller";
+import { authenticate } from "../../shared/middleware/auth.middleware";
+import { requireHouseMember } from "../../shared/middleware/houses.middleware";
+
+const router = Router();
+
+// All expense routes require authentication and house membership
+// House ID is passed as :id parameter, expense ID as :expenseId,
+// settlement ID as :settlementId
+
+// Expense routes
+router.get(
+  "/:id/expenses",
+  authenticate,
+  requireHouseMember,
+  ExpenseController.getHouseExpenses
+);
+
+router.post(
+  "/:id/expenses",
+  authenticate,
+  requireHouseMember,
+  ExpenseController.createExpense
+);
+
+router.get(
+  "/:id/expenses/:expenseId",
+  authenticate,
+  requireHouseMember,
+  ExpenseController.getExpenseById
+);
+
+router.put(
+  "/:id/expenses/:expenseId",
+  authenticate,
+  requireHouseMember,
+  ExpenseController.updateExpense
+);
+
+router.delete(
+  "/:id/expenses/:expenseId",
+  authenticate,
+  requireHouseMember,
+  ExpenseController.deleteExpense
+);
+
+// Balance routes
+router.get(
+  "/:id/balances",
+  authenticate,
+  requireHouseMember,
+  ExpenseController.getHouseBalances
+);
+
+// Settlement routes
+router.get(
+  "/:id/settlements",
+  authenticate,
+  requireHouseMember,
+  ExpenseController.getHouseSettlements
+);
+
+router.post(
+  "/:id/settlements",
+  authenticate,
+  requireHouseMember,
+  ExpenseController.createSettlement
+);
+
+router.delete(
+  "/:id/settlements/:settlementId",
+  authenticate,
+  requireHouseMember,
+  ExpenseController.deleteSettlement
+);
+
+export default router;
@@ -0,0 +1,219 @@
+import { z } from "zod";
+import { cursorParamSchema } from "../../shared/utils/pagination";
+
+// Largest expense or settlement: 1,000,000.00 in minor units
+const MAX_AMOUNT = 100_000_000;
+
+// Most members an expense can be split between
+const MAX_SPLIT_MEMBERS = 100;
+
+// Amount validation: whole number of minor units (4250 = 42.50)
+const amountSchema = z
+  .number()
+  .int("Amount must be in minor units (e.g. 4250 for 42.50)")
+  .positive("Amount must be greater than 0")
+  .max(MAX_AMOUNT, "Amount is too large");
+
+// Currency validation: ISO 4217 code, e.g. "EUR"
+const currencySchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{3}$/, "Currency must be a 3-letter ISO 4217 code");
+
+// Description validation: 1-100 chars
+const descriptionSchema = z
+  .string()
+  .trim()
+  .min(1, "Description is required")
+  .max(100, "Description must be at most 100 characters");
+
+// Date validation: ISO date or date-time
+const moneyDateSchema = z
+  .union([
+    z.string().date(),
+    z.string().datetime({ offset: true, message: "Invalid date format" }),
+  ])
+  .transform((val) => new Date(val));
+
+const memberIdSchema = z.string().uuid({ message: "Invalid member ID" });
+
+// True when no member appears twice
+const hasUniqueMembers = (memberIds: string[]) =>
+  new Set(memberIds).size === memberIds.length;
+
+// Split validation, by type:
+// - EQUAL: same part for each member (default: every member of the house)
+// - SHARES: parts proportional to shares (e.g. 2 for a couple, 1 for others)
+// - EXACT: part given for each member, must add up to the expense amount
+const splitSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("EQUAL"),
+    memberIds: z
+      .array(memberIdSchema)
+      .min(1, "At least one member is required")
+      .max(MAX_SPLIT_MEMBERS, "Too many members")
+      .refine(hasUniqueMembers, { message: "Members must be unique" })
+      .optional(),
+  }),
+  z.object({
+    type: z.literal("SHARES"),
+    shares: z
+      .array(
+        z.object({
+          memberId: memberIdSchema,
+          shares: z
+            .number()
+            .int("Shares must be a whole number")
+            .min(1, "Shares must be at least 1")
+            .max(1000, "Shares must be at most 1000"),
+        })
+      )
+      .min(1, "At least one member is required")
+      .max(MAX_SPLIT_MEMBERS, "Too many members")
+      .refine((shares) => hasUniqueMembers(shares.map((s) => s.memberId)), {
+        message: "Members must be unique",
+      }),
+  }),
+  z.object({
+    type: z.literal("EXACT"),
+    amounts: z
+      .array(
+        z.object({
+          memberId: memberIdSchema,
+          amount: z
+            .number()
+            .int("Amount must be in minor units (e.g. 4250 for 42.50)")
+            .min(0, "Amount cannot be negative")
+            .max(MAX_AMOUNT, "Amount is too large"),
+        })
+      )
+      .min(1, "At least one member is required")
+      .max(MAX_SPLIT_MEMBERS, "Too many members")
+      .refine((amounts) => hasUniqueMembers(amounts.map((a) => a.memberId)), {
+        message: "Members must be unique",
+      }),
+  }),
+]);
+
+// True when the parts of an EXACT split add up to the expense amount
+const isSplitBalanced = (data: {
+  amount?: number;
+  split?: z.infer<typeof splitSchema>;
+}) =>
+  data.split?.type !== "EXACT" ||
+  data.amount === undefined ||
+  data.split.amounts.reduce((sum, part) => sum + part.amount, 0) ===
+    data.amount;
+
+const splitBalanceMessage = {
+  message: "Split amounts must add up to the expense amount",
+  path: ["split"],
+};
+
+// Schema for recording an expense
+export const createExpenseSchema = z
+  .object({
+    description: descriptionSchema,
+    amount: amountSchema,
+    currency: currencySchema,
+    // Defaults to the member recording the expense
+    paidById: memberIdSchema.optional(),
+    spentAt: moneyDateSchema.optional(),
+    taskId: z.string().uuid({ message: "Invalid task ID" }).optional(),
+    split: splitSchema.default({ type: "EQUAL" }),
+  })
+  .refine(isSplitBalanced, splitBalanceMessage);
+
+// Schema for editing an expense (null unlinks the task)
+// EQUAL and SHARES splits follow a new amount, EXACT ones must be sent again
+export const updateExpenseSchema = z
+  .object({
+    description: descriptionSchema.optional(),
+    amount: amountSchema.optional(),
+    currency: currencySchema.optional(),
+    paidById: memberIdSchema.optional(),
+    spentAt: moneyDateSchema.optional(),
+    taskId: z
+      .string()
+      .uuid({ message: "Invalid task ID" })
+      .nullable()
+      .optional(),
+    split: splitSchema.optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "At least one field is required",
+  })
+  .refine(isSplitBalanced, splitBalanceMessage);
+
+// Schema for expense list query parameters
+export const expenseListSchema = z
+  .object({
+    // Expenses the member paid or has a part of
+    memberId: memberIdSchema.optional(),
+    taskId: z.string().uuid({ message: "Invalid task ID" }).optional(),
+    currency: currencySchema.optional(),
+    cursor: cursorParamSchema.optional(),
+    page: z.string().transform(val => Math.max(parseInt(val) || 1, 1)).optional(),
+    limit: z.string().transform(val => Math.max(Math.min(parseInt(val) || 20, 100), 1)).optional(),
+  })
+  .refine((data) => !data.cursor || data.page === undefined, {
+    message: "Use either page or cursor",
+    path: ["cursor"],
+  });
+
+// Schema for recording money paid back between two members
+export const createSettlementSchema = z
+  .object({
+    // Defaults to the member recording the settlement
+    fromId: memberIdSchema.optional(),
+    toId: memberIdSchema,
+    amount: amountSchema,
+    currency: currencySchema,
+    note: z
+      .string()
+      .trim()
+      .min(1, "Note cannot be empty")
+      .max(200, "Note must be at most 200 characters")
+      .optional(),
+    settledAt: moneyDateSchema.optional(),
+  })
+  .refine((data) => data.fromId !== data.toId, {
+    message: "A member cannot pay themselves",
+    path: ["toId"],
+  });
+
+// Schema for settlement list query parameters
+export const settlementListSchema = z
+  .object({
+    // Settlements the member paid or received
+    memberId: memberIdSchema.optional(),
+    currency: currencySchema.optional(),
+    cursor: cursorParamSchema.optional(),
+    page: z.string().transform(val => Math.max(parseInt(val) || 1, 1)).optional(),
+    limit: z.string().transform(val => Math.max(Math.min(parseInt(val) || 20, 100), 1)).optional(),
+  })
+  .refine((data) => !data.cursor || data.page === undefined, {
+    message: "Use either page or cursor",
+    path: ["cursor"],
+  });
+
+// Schema for expense ID parameter validation
+export const expenseIdParamSchema = z.object({
+  expenseId: z.string().uuid({ message: "Invalid expense ID format" }),
+});
+
+// Schema for settlement ID parameter validation
+export const settlementIdParamSchema = z.object({
+  settlementId: z.string().uuid({ message: "Invalid settlement ID format" }),
+});
+
+// Type exports for TypeScript
+export type ExpenseSplitInput = z.infer<typeof splitSchema>;
+export type CreateExpenseInput = z.infer<typeof createExpenseSchema>;
+export type UpdateExpenseInput = z.infer<typeof updateExpenseSchema>;
+export type ExpenseListInput = z.infer<typeof expenseListSchema>;
+export type CreateSettlementInput = z.infer<typeof createSettlementSchema>;
+export type SettlementListInput = z.infer<typeof settlementListSchema>;
+export type ExpenseIdParam = z.infer<typeof expenseIdParamSchema>;
+export type SettlementIdParam = z.infer<typeof settlementIdParamSchema>;
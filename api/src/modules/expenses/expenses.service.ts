@@ -0,0 +1,626 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import {
+  ForbiddenError,
+  NotFoundError,
+  UnprocessableEntityError,
+  ValidationError,
+} from "../../shared/errors/AppError";
+import {
+  getCursorWhere,
+  SortField,
+  toCursorPage,
+  toOrderBy,
+} from "../../shared/utils/pagination";
+import {
+  getBalances,
+  getSettlementPlan,
+  getSplitParts,
+  toSplitInput,
+} from "./expenses.balances";
+import {
+  CreateExpenseInput,
+  CreateSettlementInput,
+  ExpenseListInput,
+  SettlementListInput,
+  UpdateExpenseInput,
+} from "./expenses.schema";
+
+const prisma = new PrismaClient();
+
+const memberSelect = {
+  select: {
+    id: true,
+    displayName: true,
+  },
+} as const;
+
+const expenseInclude = {
+  paidBy: memberSelect,
+  createdBy: memberSelect,
+  task: {
+    select: {
+      id: true,
+      title: true,
+    },
+  },
+  splits: {
+    select: {
+      id: true,
+      amount: true,
+      shares: true,
+      memberId: true,
+      member: memberSelect,
+    },
+    // Largest parts first, the order used again when the amount changes
+    orderBy: [{ amount: "desc" }, { memberId: "asc" }],
+  },
+} satisfies Prisma.ExpenseInclude;
+
+const settlementInclude = {
+  from: memberSelect,
+  to: memberSelect,
+  createdBy: memberSelect,
+} satisfies Prisma.SettlementInclude;
+
+// Expense list order, most recent spending first
+const expenseSortFields: SortField[] = [
+  { field: "spentAt", order: "desc", isDate: true },
+  { field: "id", order: "desc" },
+];
+
+// Settlement list order, most recent first
+const settlementSortFields: SortField[] = [
+  { field: "settledAt", order: "desc", isDate: true },
+  { field: "id", order: "desc" },
+];
+
+interface CurrentMember {
+  id: string;
+  role: string;
+}
+
+export class ExpenseService {
+  /**
+   * Get expenses of a house, most recent first
+   */
+  static async getHouseExpenses(houseId: string, query: ExpenseListInput) {
+    const { memberId, taskId, currency, cursor, page = 1, limit = 20 } = query;
+
+    const where: Prisma.ExpenseWhereInput = {
+      houseId,
+      ...(taskId && { taskId }),
+      ...(currency && { currency }),
+      ...(memberId && {
+        OR: [{ paidById: memberId }, { splits: { some: { memberId } } }],
+      }),
+    };
+
+    const findExpenses = (
+      pageWhere: Prisma.ExpenseWhereInput,
+      skip: number
+    ) =>
+      prisma.expense.findMany({
+        where: pageWhere,
+        include: expenseInclude,
+        orderBy: toOrderBy<Prisma.ExpenseOrderByWithRelationInput>(
+          expenseSortFields
+        ),
+        skip,
+        // One extra expense tells whether there is a next page
+        take: limit + 1,
+      });
+
+    if (cursor) {
+      const cursorWhere = getCursorWhere<Prisma.ExpenseWhereInput>(
+        cursor,
+        expenseSortFields
+      );
+      const expenses = await findExpenses({ AND: [where, cursorWhere] }, 0);
+      const { items, hasMore, nextCursor } = toCursorPage(
+        expenses,
+        limit,
+        expenseSortFields
+      );
+
+      return {
+        expenses: items,
+        pagination: { limit, hasMore, nextCursor },
+      };
+    }
+
+    const [expenses, total] = await Promise.all([
+      findExpenses(where, (page - 1) * limit),
+      prisma.expense.count({ where }),
+    ]);
+    const { items, hasMore, nextCursor } = toCursorPage(
+      expenses,
+      limit,
+      expenseSortFields
+    );
+
+    return {
+      expenses: items,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+        hasMore,
+        nextCursor,
+      },
+    };
+  }
+
+  /**
+   * Record an expense and split it between members
+   */
+  static async createExpense(
+    houseId: string,
+    currentMemberId: string,
+    data: CreateExpenseInput
+  ) {
+    const paidById = data.paidById ?? currentMemberId;
+    const houseMemberIds = await this.getHouseMemberIds(houseId);
+    const parts = getSplitParts(data.amount, data.split, houseMemberIds);
+
+    this.assertHouseMembers(houseMemberIds, [
+      paidById,
+      ...parts.map((part) => part.memberId),
+    ]);
+
+    if (data.taskId) {
+      await this.assertTaskInHouse(houseId, data.taskId);
+    }
+
+    const expense = await prisma.expense.create({
+      data: {
+        description: data.description,
+        amount: data.amount,
+        currency: data.currency,
+        splitType: data.split.type,
+        spentAt: data.spentAt,
+        houseId,
+        paidById,
+        createdById: currentMemberId,
+        taskId: data.taskId,
+        splits: {
+          create: parts,
+        },
+      },
+      include: expenseInclude,
+    });
+
+    return expense;
+  }
+
+  /**
+   * Get an expense with its split
+   */
+  static async getExpenseById(expenseId: string, houseId: string) {
+    const expense = await prisma.expense.findFirst({
+      where: {
+        id: expenseId,
+        houseId,
+      },
+      include: expenseInclude,
+    });
+
+    if (!expense) {
+      throw new NotFoundError("Expense not found");
+    }
+
+    return expense;
+  }
+
+  /**
+   * Edit an expense (member who recorded or paid it, or house owner)
+   * EQUAL and SHARES splits are computed again for a new amount
+   */
+  static async updateExpense(
+    expenseId: string,
+    houseId: string,
+    currentMember: CurrentMember,
+    data: UpdateExpenseInput
+  ) {
+    const expense = await this.getExpenseById(expenseId, houseId);
+
+    this.assertCanManage(
+      [expense.createdById, expense.paidById],
+      currentMember,
+      "Only the member who recorded or paid this expense or a house owner can change it"
+    );
+
+    const isMoneyChanged =
+      data.amount !== undefined ||
+      data.currency !== undefined ||
+      data.paidById !== undefined ||
+      data.split !== undefined;
+
+    // A former member's balance was settled with these amounts
+    const hasFormerMember =
+      !expense.paidById || expense.splits.some((split) => !split.memberId);
+
+    if (isMoneyChanged && hasFormerMember) {
+      throw new UnprocessableEntityError(
+        "Amounts of an expense shared with a former member cannot be changed"
+      );
+    }
+
+    const amount = data.amount ?? expense.amount;
+    const isAmountChanged = amount !== expense.amount;
+
+    const split =
+      data.split ??
+      (isAmountChanged
+        ? toSplitInput(
+            expense.splitType,
+            expense.splits.flatMap(({ memberId, shares }) =>
+              memberId ? [{ memberId, shares }] : []
+            )
+          )
+        : undefined);
+
+    if (split === null) {
+      throw new ValidationError("Validation failed", {
+        split: "Send the split amounts again to change the amount",
+      });
+    }
+
+    const isSplitBalanced =
+      split?.type !== "EXACT" ||
+      split.amounts.reduce((sum, part) => sum + part.amount, 0) === amount;
+
+    if (!isSplitBalanced) {
+      throw new ValidationError("Validation failed", {
+        split: "Split amounts must add up to the expense amount",
+      });
+    }
+
+    const houseMemberIds = await this.getHouseMemberIds(houseId);
+    const parts = split && getSplitParts(amount, split, houseMemberIds);
+
+    this.assertHouseMembers(houseMemberIds, [
+      ...(data.paidById ? [data.paidById] : []),
+      ...(parts ?? []).map((part) => part.memberId),
+    ]);
+
+    if (data.taskId) {
+      await this.assertTaskInHouse(houseId, data.taskId);
+    }
+
+    const updatedExpense = await prisma.expense.update({
+      where: { id: expenseId },
+      data: {
+        ...(data.description && { description: data.description }),
+        ...(data.amount !== undefined && { amount: data.amount }),
+        ...(data.currency && { currency: data.currency }),
+        ...(data.paidById && { paidById: data.paidById }),
+        ...(data.spentAt && { spentAt: data.spentAt }),
+        ...(data.taskId !== undefined && { taskId: data.taskId }),
+        ...(split &&
+          parts && {
+            splitType: split.type,
+            splits: {
+              deleteMany: {},
+              create: parts,
+            },
+          }),
+      },
+      include: expenseInclude,
+    });
+
+    return updatedExpense;
+  }
+
+  /**
+   * Delete an expense (member who recorded or paid it, or house owner)
+   */
+  static async deleteExpense(
+    expenseId: string,
+    houseId: string,
+    currentMember: CurrentMember
+  ) {
+    const expense = await this.getExpenseById(expenseId, houseId);
+
+    this.assertCanManage(
+      [expense.createdById, expense.paidById],
+      currentMember,
+      "Only the member who recorded or paid this expense or a house owner can delete it"
+    );
+
+    if (!expense.paidById || expense.splits.some((split) => !split.memberId)) {
+      throw new UnprocessableEntityError(
+        "An expense shared with a former member cannot be deleted"
+      );
+    }
+
+    await prisma.expense.delete({
+      where: { id: expenseId },
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Get the balance of every member, per currency, with the transfers that
+   * would settle them
+   */
+  static async getHouseBalances(houseId: string) {
+    const [members, balances] = await Promise.all([
+      prisma.houseMember.findMany({
+        where: { houseId },
+        select: { id: true, displayName: true },
+        orderBy: { createdAt: "asc" },
+      }),
+      getBalances(prisma, houseId),
+    ]);
+
+    const currencies = [...new Set(balances.map((b) => b.currency))].sort();
+
+    return {
+      balances: currencies.map((currency) => {
+        const memberBalances = members
+          .map((member) => {
+            const balance = balances.find(
+              (b) => b.currency === currency && b.memberId === member.id
+            );
+
+            return {
+              member,
+              paid: balance?.paid ?? 0,
+              owed: balance?.owed ?? 0,
+              sent: balance?.sent ?? 0,
+              received: balance?.received ?? 0,
+              balance: balance?.balance ?? 0,
+            };
+          })
+          .sort((a, b) => b.balance - a.balance);
+
+        const plan = getSettlementPlan(
+          memberBalances.map(({ member, balance }) => ({
+            memberId: member.id,
+            balance,
+          }))
+        );
+
+        return {
+          currency,
+          members: memberBalances,
+          plan: plan.map(({ fromId, toId, amount }) => ({
+            from: members.find((m) => m.id === fromId) ?? null,
+            to: members.find((m) => m.id === toId) ?? null,
+            amount,
+          })),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Check whether a member still owes or is owed money in a house
+   */
+  static async hasOpenBalance(
+    houseId: string,
+    memberId: string
+  ): Promise<boolean> {
+    const balances = await getBalances(prisma, houseId, memberId);
+
+    return balances.some((b) => b.balance !== 0);
+  }
+
+  /**
+   * Get settlements of a house, most recent first
+   */
+  static async getHouseSettlements(
+    houseId: string,
+    query: SettlementListInput
+  ) {
+    const { memberId, currency, cursor, page = 1, limit = 20 } = query;
+
+    const where: Prisma.SettlementWhereInput = {
+      houseId,
+      ...(currency && { currency }),
+      ...(memberId && { OR: [{ fromId: memberId }, { toId: memberId }] }),
+    };
+
+    const findSettlements = (
+      pageWhere: Prisma.SettlementWhereInput,
+      skip: number
+    ) =>
+      prisma.settlement.findMany({
+        where: pageWhere,
+        include: settlementInclude,
+        orderBy: toOrderBy<Prisma.SettlementOrderByWithRelationInput>(
+          settlementSortFields
+        ),
+        skip,
+        // One extra settlement tells whether there is a next page
+        take: limit + 1,
+      });
+
+    if (cursor) {
+      const cursorWhere = getCursorWhere<Prisma.SettlementWhereInput>(
+        cursor,
+        settlementSortFields
+      );
+      const settlements = await findSettlements(
+        { AND: [where, cursorWhere] },
+        0
+      );
+      const { items, hasMore, nextCursor } = toCursorPage(
+        settlements,
+        limit,
+        settlementSortFields
+      );
+
+      return {
+        settlements: items,
+        pagination: { limit, hasMore, nextCursor },
+      };
+    }
+
+    const [settlements, total] = await Promise.all([
+      findSettlements(where, (page - 1) * limit),
+      prisma.settlement.count({ where }),
+    ]);
+    const { items, hasMore, nextCursor } = toCursorPage(
+      settlements,
+      limit,
+      settlementSortFields
+    );
+
+    return {
+      settlements: items,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+        hasMore,
+        nextCursor,
+      },
+    };
+  }
+
+  /**
+   * Record money paid back between two members (either of them or an owner)
+   */
+  static async createSettlement(
+    houseId: string,
+    currentMember: CurrentMember,
+    data: CreateSettlementInput
+  ) {
+    const fromId = data.fromId ?? currentMember.id;
+
+    if (fromId === data.toId) {
+      throw new ValidationError("Validation failed", {
+        toId: "A member cannot pay themselves",
+      });
+    }
+
+    this.assertCanManage(
+      [fromId, data.toId],
+      currentMember,
+      "Only the members involved or a house owner can record this settlement"
+    );
+
+    const houseMemberIds = await this.getHouseMemberIds(houseId);
+    this.assertHouseMembers(houseMemberIds, [fromId, data.toId]);
+
+    const settlement = await prisma.settlement.create({
+      data: {
+        amount: data.amount,
+        currency: data.currency,
+        note: data.note,
+        settledAt: data.settledAt,
+        houseId,
+        fromId,
+        toId: data.toId,
+        createdById: currentMember.id,
+      },
+      include: settlementInclude,
+    });
+
+    return settlement;
+  }
+
+  /**
+   * Delete a settlement recorded by mistake (members involved, member who
+   * recorded it, or house owner)
+   */
+  static async deleteSettlement(
+    settlementId: string,
+    houseId: string,
+    currentMember: CurrentMember
+  ) {
+    const settlement = await prisma.settlement.findFirst({
+      where: {
+        id: settlementId,
+        houseId,
+      },
+    });
+
+    if (!settlement) {
+      throw new NotFoundError("Settlement not found");
+    }
+
+    this.assertCanManage(
+      [settlement.fromId, settlement.toId, settlement.createdById],
+      currentMember,
+      "Only the members involved or a house owner can delete this settlement"
+    );
+
+    if (!settlement.fromId || !settlement.toId) {
+      throw new UnprocessableEntityError(
+        "A settlement with a former member cannot be deleted"
+      );
+    }
+
+    await prisma.settlement.delete({
+      where: { id: settlementId },
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Helper method to get the member IDs of a house, in join order
+   */
+  private static async getHouseMemberIds(houseId: string): Promise<string[]> {
+    const members = await prisma.houseMember.findMany({
+      where: { houseId },
+      select: { id: true },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return members.map((member) => member.id);
+  }
+
+  /**
+   * Helper method to make sure payers and split members belong to the house
+   */
+  private static assertHouseMembers(
+    houseMemberIds: string[],
+    memberIds: string[]
+  ) {
+    if (memberIds.some((id) => !houseMemberIds.includes(id))) {
+      throw new UnprocessableEntityError(
+        "All members must belong to this house"
+      );
+    }
+  }
+
+  /**
+   * Helper method to make sure a linked task belongs to the house
+   */
+  private static async assertTaskInHouse(houseId: string, taskId: string) {
+    const task = await prisma.task.findFirst({
+      where: {
+        id: taskId,
+        houseId,
+      },
+      select: { id: true },
+    });
+
+    if (!task) {
+      throw new UnprocessableEntityError("Task does not belong to this house");
+    }
+  }
+
+  /**
+   * Helper method to allow the members concerned and house owners only
+   */
+  private static assertCanManage(
+    allowedMemberIds: (string | null)[],
+    currentMember: CurrentMember,
+    message: string
+  ) {
+    const canManage =
+      allowedMemberIds.includes(currentMember.id) ||
+      currentMember.role === "OWNER";
+
+    if (!canManage) {
+      throw new ForbiddenError(message);
+    }
+  }
+}
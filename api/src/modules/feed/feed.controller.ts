@@ -0,0 +1,24 @@
+import { Response } from "express";
+import { AuthRequest } from "../../shared/middleware/auth.middleware";
+import { validateData } from "../../shared/utils/validation";
+import { FeedService } from "./feed.service";
+import { feedQuerySchema } from "./feed.schema";
+import { houseIdParamSchema } from "../houses/houses.schema";
+
+export class FeedController {
+  /**
+   * GET /api/v1/houses/:id/feed
+   * Get the house feed (tasks created/completed and membership changes), newest first
+   */
+  static async getHouseFeed(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const query = validateData(feedQuerySchema, req.query);
+
+    const result = await FeedService.getHouseFeed(houseId, query);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  }
+}
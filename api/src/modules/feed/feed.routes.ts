@@ -0,0 +1,18 @@
+import { Router } from "express";
+import { FeedController } from "./feed.controller";
+import { authenticate } from "../../shared/middleware/auth.middleware";
+import { requireHouseMember } from "../../shared/middleware/houses.middleware";
+
+const router = Router();
+
+// All feed routes require authentication and house membership
+// House ID is passed as :id parameter
+
+router.get(
+  "/:id/feed",
+  authenticate,
+  requireHouseMember,
+  FeedController.getHouseFeed
+);
+
+export default router;
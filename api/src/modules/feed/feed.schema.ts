@@ -0,0 +1,17 @@
+import { z } from "zod";
+import { cursorParamSchema } from "../../shared/utils/pagination";
+
+// Schema for house feed query parameters
+export const feedQuerySchema = z
+  .object({
+    cursor: cursorParamSchema.optional(),
+    page: z.string().transform(val => Math.max(parseInt(val) || 1, 1)).optional(),
+    limit: z.string().transform(val => Math.max(Math.min(parseInt(val) || 30, 100), 1)).optional(),
+  })
+  .refine((data) => !data.cursor || data.page === undefined, {
+    message: "Use either page or cursor",
+    path: ["cursor"],
+  });
+
+// Type exports for TypeScript
+export type FeedQueryInput = z.infer<typeof feedQuerySchema>;
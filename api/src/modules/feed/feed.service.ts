@@ -0,0 +1,169 @@
+import { HouseEventType, Prisma, PrismaClient } from "@prisma/client";
+import {
+  getCursorWhere,
+  SortField,
+  toCursorPage,
+} from "../../shared/utils/pagination";
+import { FeedQueryInput } from "./feed.schema";
+
+const prisma = new PrismaClient();
+
+const actorInclude = {
+  actor: {
+    select: {
+      id: true,
+      displayName: true,
+    },
+  },
+} satisfies Prisma.TaskEventInclude & Prisma.HouseEventInclude;
+
+// Feed order, newest first (both sources are sorted the same way)
+const feedSortFields: SortField[] = [
+  { field: "createdAt", order: "desc", isDate: true },
+  { field: "id", order: "desc" },
+];
+
+export type FeedItemType = "TASK_CREATED" | "TASK_COMPLETED" | HouseEventType;
+
+export interface FeedItem {
+  id: string;
+  type: FeedItemType;
+  occurredAt: Date;
+  actor: { id: string; displayName: string } | null;
+  task: { id: string | null; title: string } | null;
+  member: { id: string | null; displayName: string } | null;
+  changes: Prisma.JsonValue;
+}
+
+export class FeedService {
+  /**
+   * Get the house feed, newest first
+   * Merges task creations and completions with membership events
+   */
+  static async getHouseFeed(houseId: string, query: FeedQueryInput) {
+    const { cursor, page = 1, limit = 30 } = query;
+
+    const taskWhere: Prisma.TaskEventWhereInput = {
+      houseId,
+      OR: [
+        { type: "CREATED" },
+        {
+          type: "STATUS_CHANGED",
+          changes: { path: ["status", "to"], equals: "COMPLETED" },
+        },
+      ],
+    };
+    const houseWhere: Prisma.HouseEventWhereInput = { houseId };
+
+    // Cursor mode: both sources resume after the last item received
+    if (cursor) {
+      const cursorWhere = getCursorWhere<
+        Prisma.TaskEventWhereInput & Prisma.HouseEventWhereInput
+      >(cursor, feedSortFields);
+
+      // One extra item tells whether there is a next page
+      const items = await this.getMergedItems(
+        { AND: [taskWhere, cursorWhere] },
+        { AND: [houseWhere, cursorWhere] },
+        limit + 1
+      );
+      const { hasMore, nextCursor } = this.toFeedPage(items, limit);
+
+      return {
+        items: items.slice(0, limit),
+        pagination: { limit, hasMore, nextCursor },
+      };
+    }
+
+    // Each source is sorted, so its newest page * limit rows (plus one) are
+    // enough to fill the requested page of the merged stream
+    const [items, taskTotal, houseTotal] = await Promise.all([
+      this.getMergedItems(taskWhere, houseWhere, page * limit + 1),
+      prisma.taskEvent.count({ where: taskWhere }),
+      prisma.houseEvent.count({ where: houseWhere }),
+    ]);
+
+    const total = taskTotal + houseTotal;
+    const pageItems = items.slice((page - 1) * limit);
+    const { hasMore, nextCursor } = this.toFeedPage(pageItems, limit);
+
+    return {
+      items: pageItems.slice(0, limit),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+        hasMore,
+        nextCursor,
+      },
+    };
+  }
+
+  /**
+   * Helper method to read both sources and merge them, newest first
+   */
+  private static async getMergedItems(
+    taskWhere: Prisma.TaskEventWhereInput,
+    houseWhere: Prisma.HouseEventWhereInput,
+    take: number
+  ): Promise<FeedItem[]> {
+    const [taskEvents, houseEvents] = await Promise.all([
+      prisma.taskEvent.findMany({
+        where: taskWhere,
+        include: actorInclude,
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        take,
+      }),
+      prisma.houseEvent.findMany({
+        where: houseWhere,
+        include: actorInclude,
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        take,
+      }),
+    ]);
+
+    const items: FeedItem[] = [
+      ...taskEvents.map(
+        (event): FeedItem => ({
+          id: event.id,
+          type: event.type === "CREATED" ? "TASK_CREATED" : "TASK_COMPLETED",
+          occurredAt: event.createdAt,
+          actor: event.actor,
+          task: { id: event.taskId, title: event.taskTitle },
+          member: null,
+          changes: null,
+        })
+      ),
+      ...houseEvents.map(
+        (event): FeedItem => ({
+          id: event.id,
+          type: event.type,
+          occurredAt: event.createdAt,
+          actor: event.actor,
+          task: null,
+          member: { id: event.memberId, displayName: event.memberName },
+          changes: event.changes,
+        })
+      ),
+    ];
+
+    items.sort(
+      (a, b) =>
+        b.occurredAt.getTime() - a.occurredAt.getTime() ||
+        b.id.localeCompare(a.id)
+    );
+
+    return items.slice(0, take);
+  }
+
+  /**
+   * Helper method to cut merged items into a page with its cursor
+   */
+  private static toFeedPage(items: FeedItem[], limit: number) {
+    return toCursorPage(items, limit, feedSortFields, (item) => ({
+      createdAt: item.occurredAt,
+      id: item.id,
+    }));
+  }
+}
@@ -1,11 +1,15 @@
 import { Response } from "express";
 import { AuthRequest } from "../../shared/middleware/auth.middleware";
+import { validateData } from "../../shared/utils/validation";
 import { HouseService } from "./houses.service";
 import {
   createHouseSchema,
   updateHouseSchema,
   updateMemberRoleSchema,
+  transferOwnershipSchema,
   setDisplayNameSchema,
+  updateMyMembershipSchema,
+  memberListSchema,
   houseIdParamSchema,
   userIdParamSchema,
 } from "./houses.schema";
@@ -101,12 +105,36 @@ export class HouseController {
    */
   static async getHouseMembers(req: AuthRequest, res: Response): Promise<void> {
     const { id } = houseIdParamSchema.parse(req.params);
+    const query = validateData(memberListSchema, req.query);
 
-    const members = await HouseService.getHouseMembers(id);
+    const result = await HouseService.getHouseMembers(id, query);
 
     res.json({
       success: true,
-      data: { members },
+      data: result,
+    });
+  }
+
+  /**
+   * PUT /api/v1/houses/:id/members/me
+   * Update own membership (display name, notifications)
+   */
+  static async updateMyMembership(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const { id } = houseIdParamSchema.parse(req.params);
+    const updateData = validateData(updateMyMembershipSchema, req.body);
+
+    const member = await HouseService.updateMyMembership(
+      id,
+      req.user!.id,
+      updateData
+    );
+
+    res.json({
+      success: true,
+      data: { member },
     });
   }
 
@@ -118,7 +146,7 @@ export class HouseController {
     const { id } = houseIdParamSchema.parse(req.params);
     const { userId } = userIdParamSchema.parse(req.params);
 
-    await HouseService.removeMember(id, userId);
+    await HouseService.removeMember(id, userId, req.houseMember!.id);
 
     res.json({
       success: true,
@@ -135,11 +163,58 @@ export class HouseController {
     const { userId } = userIdParamSchema.parse(req.params);
     const { role } = updateMemberRoleSchema.parse(req.body);
 
-    const member = await HouseService.updateMemberRole(id, userId, role);
+    const member = await HouseService.updateMemberRole(
+      id,
+      userId,
+      role,
+      req.houseMember!.id
+    );
 
     res.json({
       success: true,
       data: { member },
     });
   }
+
+  /**
+   * POST /api/v1/houses/:id/leave
+   * Leave house (any member, not the last owner)
+   */
+  static async leaveHouse(req: AuthRequest, res: Response): Promise<void> {
+    const { id } = houseIdParamSchema.parse(req.params);
+
+    await HouseService.leaveHouse(id, req.user!.id);
+
+    res.json({
+      success: true,
+      data: { message: "You left the house" },
+    });
+  }
+
+  /**
+   * POST /api/v1/houses/:id/transfer-ownership
+   * Promote a member to owner, optionally stepping down (owner required)
+   */
+  static async transferOwnership(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const { id } = houseIdParamSchema.parse(req.params);
+    const { userId, demoteSelf } = validateData(
+      transferOwnershipSchema,
+      req.body
+    );
+
+    const result = await HouseService.transferOwnership(
+      id,
+      req.user!.id,
+      userId,
+      demoteSelf
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  }
 }
@@ -0,0 +1,31 @@
+import { HouseEventType, Prisma, Role } from "@prisma/client";
+
+interface HouseEventInput {
+  type: HouseEventType;
+  member: { id: string; houseId: string; displayName: string };
+  actorId: string | null;
+  roleChange?: { from: Role; to: Role };
+  invitationId?: string;
+}
+
+/**
+ * Appends a membership event to the house log
+ * Call it with the transaction client of the change so both commit together,
+ * and before deleting the member so the event still points to them
+ */
+export const recordHouseEvent = async (
+  tx: Prisma.TransactionClient,
+  { type, member, actorId, roleChange, invitationId }: HouseEventInput
+): Promise<void> => {
+  await tx.houseEvent.create({
+    data: {
+      type,
+      memberName: member.displayName,
+      changes: roleChange && { role: roleChange },
+      houseId: member.houseId,
+      memberId: member.id,
+      actorId,
+      invitationId,
+    },
+  });
+};
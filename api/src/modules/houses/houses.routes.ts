@@ -6,6 +6,17 @@ import {
   requireOwner,
 } from "../../shared/middleware/houses.middleware";
 import taskRoutes from "../tasks/tasks.routes";
+import { houseInvitationRoutes } from "../invitations/invitations.routes";
+import categoryRoutes from "../categories/categories.routes";
+import commentRoutes from "../comments/comments.routes";
+import shoppingRoutes from "../shopping/shopping.routes";
+import feedRoutes from "../feed/feed.routes";
+import realtimeRoutes from "../realtime/realtime.routes";
+import reminderRoutes from "../reminders/reminders.routes";
+import statsRoutes from "../stats/stats.routes";
+import pointsRoutes from "../points/points.routes";
+import expenseRoutes from "../expenses/expenses.routes";
+import calendarRoutes from "../calendar/calendar.routes";
 
 const router = Router();
 
@@ -45,6 +56,13 @@ router.get(
   HouseController.getHouseMembers
 );
 
+router.put(
+  "/:id/members/me",
+  authenticate,
+  requireHouseMember,
+  HouseController.updateMyMembership
+);
+
 router.delete(
   "/:id/members/:userId",
   authenticate,
@@ -61,7 +79,55 @@ router.put(
   HouseController.updateMemberRole
 );
 
+router.post(
+  "/:id/leave",
+  authenticate,
+  requireHouseMember,
+  HouseController.leaveHouse
+);
+
+router.post(
+  "/:id/transfer-ownership",
+  authenticate,
+  requireHouseMember,
+  requireOwner,
+  HouseController.transferOwnership
+);
+
 // Task routes (nested under houses)
 router.use("/", taskRoutes);
 
+// Invitation routes (nested under houses)
+router.use("/", houseInvitationRoutes);
+
+// Category routes (nested under houses)
+router.use("/", categoryRoutes);
+
+// Task comment routes (nested under houses)
+router.use("/", commentRoutes);
+
+// Shopping list routes (nested under houses)
+router.use("/", shoppingRoutes);
+
+// House feed routes (nested under houses)
+router.use("/", feedRoutes);
+
+// Real-time stream routes (nested under houses)
+router.use("/", realtimeRoutes);
+
+// Reminder settings routes (nested under houses)
+router.use("/", reminderRoutes);
+
+// House statistics routes (nested under houses)
+router.use("/", statsRoutes);
+
+// Points leaderboard routes (nested under houses)
+router.use("/", pointsRoutes);
+
+// Expense, balance and settlement routes (nested under houses)
+router.use("/", expenseRoutes);
+
+// Calendar feed routes (nested under houses)
+router.use("/", calendarRoutes);
+
 export default router;
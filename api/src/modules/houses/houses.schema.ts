@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { cursorParamSchema } from "../../shared/utils/pagination";
 
 // House name validation: 3-20 chars, letters/numbers/spaces only
 const houseNameSchema = z
@@ -38,11 +39,37 @@ export const updateMemberRoleSchema = z.object({
   role: houseMemberRoleSchema,
 });
 
+// Schema for transferring ownership to another member
+export const transferOwnershipSchema = z.object({
+  userId: z.string().uuid("Invalid user ID format"),
+  demoteSelf: z.boolean().default(false),
+});
+
 // Schema for setting display name when joining a house
 export const setDisplayNameSchema = z.object({
   displayName: displayNameSchema,
 });
 
+// Schema for updating the current user's own membership
+export const updateMyMembershipSchema = z
+  .object({
+    displayName: displayNameSchema.optional(),
+    notificationsEnabled: z.boolean().optional(),
+  })
+  .refine(
+    (data) =>
+      data.displayName !== undefined ||
+      data.notificationsEnabled !== undefined,
+    { message: "At least one field is required" }
+  );
+
+// Schema for member list query parameters
+// Without limit or cursor, every member is returned
+export const memberListSchema = z.object({
+  cursor: cursorParamSchema.optional(),
+  limit: z.string().transform(val => Math.max(Math.min(parseInt(val) || 50, 100), 1)).optional(),
+});
+
 // Schema for house ID parameter validation
 export const houseIdParamSchema = z.object({
   id: z.string().uuid("Invalid house ID format"),
@@ -57,6 +84,9 @@ export const userIdParamSchema = z.object({
 export type CreateHouseInput = z.infer<typeof createHouseSchema>;
 export type UpdateHouseInput = z.infer<typeof updateHouseSchema>;
 export type UpdateMemberRoleInput = z.infer<typeof updateMemberRoleSchema>;
+export type TransferOwnershipInput = z.infer<typeof transferOwnershipSchema>;
 export type SetDisplayNameInput = z.infer<typeof setDisplayNameSchema>;
+export type UpdateMyMembershipInput = z.infer<typeof updateMyMembershipSchema>;
+export type MemberListInput = z.infer<typeof memberListSchema>;
 export type HouseIdParam = z.infer<typeof houseIdParamSchema>;
 export type UserIdParam = z.infer<typeof userIdParamSchema>;
@@ -1,12 +1,39 @@
-import { PrismaClient, Role } from "@prisma/client";
+import { Prisma, PrismaClient, Role } from "@prisma/client";
 import {
+  ConflictError,
   NotFoundError,
   UnprocessableEntityError,
 } from "../../shared/errors/AppError";
-import { CreateHouseInput, UpdateHouseInput } from "./houses.schema";
+import { isUniqueConstraintError } from "../../shared/utils/prisma";
+import {
+  getCursorWhere,
+  SortField,
+  toCursorPage,
+  toOrderBy,
+} from "../../shared/utils/pagination";
+import { recordHouseEvent } from "./houses.events";
+import {
+  RealtimeService,
+  toRealtimeMember,
+} from "../realtime/realtime.service";
+import { NotificationDispatcher } from "../notifications/notifications.dispatcher";
+import { ExpenseService } from "../expenses/expenses.service";
+import {
+  CreateHouseInput,
+  UpdateHouseInput,
+  UpdateMyMembershipInput,
+  MemberListInput,
+} from "./houses.schema";
 
 const prisma = new PrismaClient();
 
+// Member list order, by role then join date
+const memberSortFields: SortField[] = [
+  { field: "role", order: "desc", enumValues: Object.values(Role) },
+  { field: "createdAt", order: "asc", isDate: true },
+  { field: "id", order: "asc" },
+];
+
 export class HouseService {
   /**
    * Create a new house with the user as OWNER
@@ -149,15 +176,29 @@ export class HouseService {
       where: { id: houseId },
     });
 
+    RealtimeService.publish(houseId, "house.deleted", null, {});
+    RealtimeService.disconnectHouse(houseId);
+
     return { success: true };
   }
 
   /**
-   * Get all members of a house
+   * Get the members of a house, all of them or one page after the cursor
    */
-  static async getHouseMembers(houseId: string) {
+  static async getHouseMembers(houseId: string, query: MemberListInput = {}) {
+    const { cursor, limit } = query;
+    const isPaginated = cursor !== undefined || limit !== undefined;
+    const pageSize = limit ?? 50;
+
     const members = await prisma.houseMember.findMany({
-      where: { houseId },
+      where: {
+        houseId,
+        ...(cursor &&
+          getCursorWhere<Prisma.HouseMemberWhereInput>(
+            cursor,
+            memberSortFields
+          )),
+      },
       include: {
         user: {
           select: {
@@ -168,19 +209,37 @@ export class HouseService {
           },
         },
       },
-      orderBy: [
-        { role: "desc" }, // OWNER first, then MEMBER
-        { createdAt: "asc" },
-      ],
+      orderBy: toOrderBy<Prisma.HouseMemberOrderByWithRelationInput>(
+        memberSortFields
+      ),
+      // One extra member tells whether there is a next page
+      ...(isPaginated && { take: pageSize + 1 }),
     });
 
-    return members;
+    if (!isPaginated) {
+      return { members };
+    }
+
+    const { items, hasMore, nextCursor } = toCursorPage(
+      members,
+      pageSize,
+      memberSortFields
+    );
+
+    return {
+      members: items,
+      pagination: { limit: pageSize, hasMore, nextCursor },
+    };
   }
 
   /**
    * Remove member from house (admin+ required)
    */
-  static async removeMember(houseId: string, targetUserId: string) {
+  static async removeMember(
+    houseId: string,
+    targetUserId: string,
+    currentMemberId: string
+  ) {
     // Check if target user is a member
     const targetMember = await prisma.houseMember.findUnique({
       where: {
@@ -197,29 +256,37 @@ export class HouseService {
 
     // Check if trying to remove the last OWNER
     if (targetMember.role === "OWNER") {
-      const ownerCount = await prisma.houseMember.count({
-        where: {
-          houseId,
-          role: "OWNER",
-        },
-      });
+      await this.assertNotLastOwner(
+        houseId,
+        "Cannot remove the last owner of the house"
+      );
+    }
 
-      if (ownerCount <= 1) {
-        throw new UnprocessableEntityError(
-          "Cannot remove the last owner of the house"
-        );
-      }
+    // Their expenses and settlements stay, so balances must be even first
+    if (await ExpenseService.hasOpenBalance(houseId, targetMember.id)) {
+      throw new UnprocessableEntityError(
+        "Member must settle up their balances before being removed"
+      );
     }
 
-    // Remove member
-    await prisma.houseMember.delete({
-      where: {
-        userId_houseId: {
-          userId: targetUserId,
-          houseId,
-        },
-      },
+    // Remove member, logging it first so the event still points to them
+    await prisma.$transaction(async (tx) => {
+      await recordHouseEvent(tx, {
+        type: "MEMBER_REMOVED",
+        member: targetMember,
+        actorId: currentMemberId,
+      });
+
+      await tx.houseMember.delete({
+        where: { id: targetMember.id },
+      });
+    });
+
+    RealtimeService.publish(houseId, "member.removed", currentMemberId, {
+      memberId: targetMember.id,
+      userId: targetUserId,
     });
+    RealtimeService.disconnectUser(houseId, targetUserId);
 
     return { success: true };
   }
@@ -230,7 +297,8 @@ export class HouseService {
   static async updateMemberRole(
     houseId: string,
     targetUserId: string,
-    newRole: Role
+    newRole: Role,
+    currentMemberId: string
   ) {
     // Check if target user is a member
     const targetMember = await prisma.houseMember.findUnique({
@@ -248,42 +316,288 @@ export class HouseService {
 
     // Check if trying to demote the last OWNER
     if (targetMember.role === "OWNER" && newRole !== "OWNER") {
-      const ownerCount = await prisma.houseMember.count({
+      await this.assertNotLastOwner(
+        houseId,
+        "Cannot demote the last owner of the house"
+      );
+    }
+
+    // Update role
+    const updatedMember = await prisma.$transaction(async (tx) => {
+      if (targetMember.role !== newRole) {
+        await recordHouseEvent(tx, {
+          type: "ROLE_CHANGED",
+          member: targetMember,
+          actorId: currentMemberId,
+          roleChange: { from: targetMember.role, to: newRole },
+        });
+      }
+
+      return await tx.houseMember.update({
         where: {
-          houseId,
-          role: "OWNER",
+          userId_houseId: {
+            userId: targetUserId,
+            houseId,
+          },
+        },
+        data: { role: newRole },
+        include: {
+          user: {
+            select: {
+              id: true,
+              email: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
         },
       });
+    });
 
-      if (ownerCount <= 1) {
-        throw new UnprocessableEntityError(
-          "Cannot demote the last owner of the house"
-        );
+    if (targetMember.role !== newRole) {
+      RealtimeService.publish(houseId, "member.role_changed", currentMemberId, {
+        member: toRealtimeMember(updatedMember),
+      });
+
+      NotificationDispatcher.roleChanged(updatedMember, currentMemberId);
+    }
+
+    return updatedMember;
+  }
+
+  /**
+   * Update the current user's membership (display name, notifications)
+   */
+  static async updateMyMembership(
+    houseId: string,
+    userId: string,
+    data: UpdateMyMembershipInput
+  ) {
+    if (data.displayName) {
+      const isAvailable = await this.isDisplayNameAvailable(
+        houseId,
+        data.displayName,
+        userId
+      );
+
+      if (!isAvailable) {
+        throw new ConflictError("Display name already taken", {
+          displayName: "This display name is already used in this house",
+        });
       }
     }
 
-    // Update role
-    const updatedMember = await prisma.houseMember.update({
+    try {
+      const updatedMember = await prisma.houseMember.update({
+        where: {
+          userId_houseId: {
+            userId,
+            houseId,
+          },
+        },
+        data: {
+          ...(data.displayName && { displayName: data.displayName }),
+          ...(data.notificationsEnabled !== undefined && {
+            notificationsEnabled: data.notificationsEnabled,
+          }),
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              email: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+        },
+      });
+
+      RealtimeService.publish(houseId, "member.updated", updatedMember.id, {
+        member: toRealtimeMember(updatedMember),
+      });
+
+      return updatedMember;
+    } catch (error) {
+      // Another member may have taken the name since the check
+      if (isUniqueConstraintError(error, "displayName")) {
+        throw new ConflictError("Display name already taken", {
+          displayName: "This display name is already used in this house",
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Leave a house (any member, last owner must transfer ownership first)
+   * Expense balances must be settled before leaving
+   */
+  static async leaveHouse(houseId: string, userId: string) {
+    const member = await prisma.houseMember.findUnique({
       where: {
         userId_houseId: {
-          userId: targetUserId,
+          userId,
           houseId,
         },
       },
-      data: { role: newRole },
-      include: {
-        user: {
-          select: {
-            id: true,
-            email: true,
-            firstName: true,
-            lastName: true,
+    });
+
+    if (!member) {
+      throw new NotFoundError("User is not a member of this house");
+    }
+
+    if (member.role === "OWNER") {
+      await this.assertNotLastOwner(
+        houseId,
+        "The last owner cannot leave the house. Transfer ownership or delete the house instead"
+      );
+    }
+
+    if (await ExpenseService.hasOpenBalance(houseId, member.id)) {
+      throw new UnprocessableEntityError(
+        "Settle up your balances before leaving the house"
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await recordHouseEvent(tx, {
+        type: "MEMBER_LEFT",
+        member,
+        actorId: member.id,
+      });
+
+      await tx.houseMember.delete({
+        where: { id: member.id },
+      });
+    });
+
+    RealtimeService.publish(houseId, "member.left", member.id, {
+      memberId: member.id,
+      userId,
+    });
+    RealtimeService.disconnectUser(houseId, userId);
+
+    return { success: true };
+  }
+
+  /**
+   * Promote a member to OWNER, optionally demoting the current owner (owner required)
+   */
+  static async transferOwnership(
+    houseId: string,
+    currentUserId: string,
+    targetUserId: string,
+    demoteSelf: boolean
+  ) {
+    if (targetUserId === currentUserId) {
+      throw new UnprocessableEntityError(
+        "Cannot transfer ownership to yourself"
+      );
+    }
+
+    const [currentMember, targetMember] = await Promise.all([
+      prisma.houseMember.findUniqueOrThrow({
+        where: {
+          userId_houseId: {
+            userId: currentUserId,
+            houseId,
           },
         },
+      }),
+      prisma.houseMember.findUnique({
+        where: {
+          userId_houseId: {
+            userId: targetUserId,
+            houseId,
+          },
+        },
+      }),
+    ]);
+
+    if (!targetMember) {
+      throw new NotFoundError("User is not a member of this house");
+    }
+
+    if (targetMember.role === "OWNER" && !demoteSelf) {
+      throw new UnprocessableEntityError(
+        "User is already an owner of this house"
+      );
+    }
+
+    const memberInclude = {
+      user: {
+        select: {
+          id: true,
+          email: true,
+          firstName: true,
+          lastName: true,
+        },
       },
+    } satisfies Prisma.HouseMemberInclude;
+
+    // Promote and demote together so the house never ends up without an owner
+    const result = await prisma.$transaction(async (tx) => {
+      if (targetMember.role !== "OWNER") {
+        await recordHouseEvent(tx, {
+          type: "ROLE_CHANGED",
+          member: targetMember,
+          actorId: currentMember.id,
+          roleChange: { from: targetMember.role, to: "OWNER" },
+        });
+      }
+
+      const newOwner = await tx.houseMember.update({
+        where: { id: targetMember.id },
+        data: { role: "OWNER" },
+        include: memberInclude,
+      });
+
+      if (!demoteSelf) {
+        return { newOwner, previousOwner: null };
+      }
+
+      await this.assertNotLastOwner(
+        houseId,
+        "Cannot demote the last owner of the house",
+        tx
+      );
+
+      await recordHouseEvent(tx, {
+        type: "ROLE_CHANGED",
+        member: currentMember,
+        actorId: currentMember.id,
+        roleChange: { from: currentMember.role, to: "MEMBER" },
+      });
+
+      const previousOwner = await tx.houseMember.update({
+        where: { id: currentMember.id },
+        data: { role: "MEMBER" },
+        include: memberInclude,
+      });
+
+      return { newOwner, previousOwner };
     });
 
-    return updatedMember;
+    const changedMembers = [
+      targetMember.role !== "OWNER" ? result.newOwner : null,
+      result.previousOwner,
+    ];
+
+    for (const member of changedMembers) {
+      if (member) {
+        RealtimeService.publish(
+          houseId,
+          "member.role_changed",
+          currentMember.id,
+          { member: toRealtimeMember(member) }
+        );
+
+        NotificationDispatcher.roleChanged(member, currentMember.id);
+      }
+    }
+
+    return result;
   }
 
   /**
@@ -311,4 +625,24 @@ export class HouseService {
 
     return false;
   }
+
+  /**
+   * Helper method to make sure a house keeps at least one other OWNER
+   */
+  private static async assertNotLastOwner(
+    houseId: string,
+    message: string,
+    db: Prisma.TransactionClient = prisma
+  ) {
+    const ownerCount = await db.houseMember.count({
+      where: {
+        houseId,
+        role: "OWNER",
+      },
+    });
+
+    if (ownerCount <= 1) {
+      throw new UnprocessableEntityError(message);
+    }
+  }
 }
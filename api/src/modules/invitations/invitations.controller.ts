@@ -0,0 +1,105 @@
+import { Response } from "express";
+import { AuthRequest } from "../../shared/middleware/auth.middleware";
+import { validateData } from "../../shared/utils/validation";
+import { InvitationService } from "./invitations.service";
+import {
+  createInvitationSchema,
+  invitationFilterSchema,
+  invitationIdParamSchema,
+  invitationCodeParamSchema,
+} from "./invitations.schema";
+import {
+  houseIdParamSchema,
+  setDisplayNameSchema,
+} from "../houses/houses.schema";
+
+export class InvitationController {
+  /**
+   * POST /api/v1/houses/:id/invitations
+   * Create an invitation code (owner required)
+   */
+  static async createInvitation(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const invitationData = validateData(createInvitationSchema, req.body ?? {});
+    const currentMemberId = req.houseMember!.id;
+
+    const invitation = await InvitationService.createInvitation(
+      houseId,
+      currentMemberId,
+      invitationData
+    );
+
+    res.status(201).json({
+      success: true,
+      data: { invitation },
+    });
+  }
+
+  /**
+   * GET /api/v1/houses/:id/invitations
+   * List house invitations (owner required)
+   */
+  static async getHouseInvitations(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const filters = validateData(invitationFilterSchema, req.query);
+
+    const invitations = await InvitationService.getHouseInvitations(
+      houseId,
+      filters
+    );
+
+    res.json({
+      success: true,
+      data: { invitations },
+    });
+  }
+
+  /**
+   * DELETE /api/v1/houses/:id/invitations/:invitationId
+   * Revoke an unused invitation (owner required)
+   */
+  static async revokeInvitation(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const { invitationId } = validateData(invitationIdParamSchema, req.params);
+
+    await InvitationService.revokeInvitation(houseId, invitationId);
+
+    res.json({
+      success: true,
+      data: { message: "Invitation revoked successfully" },
+    });
+  }
+
+  /**
+   * POST /api/v1/invitations/:code/redeem
+   * Join a house using an invitation code
+   */
+  static async redeemInvitation(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const { code } = validateData(invitationCodeParamSchema, req.params);
+    const { displayName } = validateData(setDisplayNameSchema, req.body);
+    const userId = req.user!.id;
+
+    const house = await InvitationService.redeemInvitation(
+      code,
+      userId,
+      displayName
+    );
+
+    res.status(201).json({
+      success: true,
+      data: { house },
+    });
+  }
+}
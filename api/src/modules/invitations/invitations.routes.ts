@@ -0,0 +1,45 @@
+import { Router } from "express";
+import { InvitationController } from "./invitations.controller";
+import { authenticate } from "../../shared/middleware/auth.middleware";
+import {
+  requireHouseMember,
+  requireOwner,
+} from "../../shared/middleware/houses.middleware";
+
+// House-scoped invitation management (mounted under /api/v1/houses)
+export const houseInvitationRoutes = Router();
+
+houseInvitationRoutes.post(
+  "/:id/invitations",
+  authenticate,
+  requireHouseMember,
+  requireOwner,
+  InvitationController.createInvitation
+);
+
+houseInvitationRoutes.get(
+  "/:id/invitations",
+  authenticate,
+  requireHouseMember,
+  requireOwner,
+  InvitationController.getHouseInvitations
+);
+
+houseInvitationRoutes.delete(
+  "/:id/invitations/:invitationId",
+  authenticate,
+  requireHouseMember,
+  requireOwner,
+  InvitationController.revokeInvitation
+);
+
+// Invitation redemption (mounted under /api/v1/invitations)
+const router = Router();
+
+router.post(
+  "/:code/redeem",
+  authenticate,
+  InvitationController.redeemInvitation
+);
+
+export default router;
@@ -0,0 +1,39 @@
+import { z } from "zod";
+
+// Invitation code validation: 8 alphanumeric chars, case-insensitive
+const invitationCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z0-9]{8}$/, "Invitation code must be 8 alphanumeric characters");
+
+// Schema for creating a new invitation
+export const createInvitationSchema = z.object({
+  expiresInDays: z
+    .number()
+    .int("Expiration must be a whole number of days")
+    .min(1, "Invitation must be valid for at least 1 day")
+    .max(30, "Invitation can be valid for at most 30 days")
+    .default(7),
+});
+
+// Schema for invitation listing query parameters
+export const invitationFilterSchema = z.object({
+  status: z.enum(["active", "used", "expired"]).optional(),
+});
+
+// Schema for invitation ID parameter validation
+export const invitationIdParamSchema = z.object({
+  invitationId: z.string().uuid("Invalid invitation ID format"),
+});
+
+// Schema for invitation code parameter validation
+export const invitationCodeParamSchema = z.object({
+  code: invitationCodeSchema,
+});
+
+// Type exports for TypeScript
+export type CreateInvitationInput = z.infer<typeof createInvitationSchema>;
+export type InvitationFilterInput = z.infer<typeof invitationFilterSchema>;
+export type InvitationIdParam = z.infer<typeof invitationIdParamSchema>;
+export type InvitationCodeParam = z.infer<typeof invitationCodeParamSchema>;
@@ -0,0 +1,275 @@
+import { randomInt } from "crypto";
+import { Prisma, PrismaClient } from "@prisma/client";
+import {
+  ConflictError,
+  NotFoundError,
+  UnprocessableEntityError,
+} from "../../shared/errors/AppError";
+import { isUniqueConstraintError } from "../../shared/utils/prisma";
+import { HouseService } from "../houses/houses.service";
+import { recordHouseEvent } from "../houses/houses.events";
+import {
+  RealtimeService,
+  toRealtimeMember,
+} from "../realtime/realtime.service";
+import { NotificationDispatcher } from "../notifications/notifications.dispatcher";
+import {
+  CreateInvitationInput,
+  InvitationFilterInput,
+} from "./invitations.schema";
+
+const prisma = new PrismaClient();
+
+// Uppercase alphanumerics without look-alikes (0/O, 1/I) so codes are easy to read out
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+const MAX_CODE_ATTEMPTS = 5;
+
+const invitationInclude = {
+  createdBy: {
+    select: {
+      id: true,
+      displayName: true,
+    },
+  },
+  usedBy: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+} satisfies Prisma.InvitationInclude;
+
+export class InvitationService {
+  /**
+   * Create a new invitation code for a house (owner required)
+   */
+  static async createInvitation(
+    houseId: string,
+    createdById: string,
+    data: CreateInvitationInput
+  ) {
+    const expiresAt = new Date(
+      Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000
+    );
+
+    // Retry on the (unlikely) event of a code collision
+    for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+      try {
+        return await prisma.invitation.create({
+          data: {
+            code: this.generateCode(),
+            expiresAt,
+            houseId,
+            createdById,
+          },
+          include: invitationInclude,
+        });
+      } catch (error) {
+        if (!isUniqueConstraintError(error)) {
+          throw error;
+        }
+      }
+    }
+
+    throw new Error("Failed to generate a unique invitation code");
+  }
+
+  /**
+   * Get invitations of a house, optionally filtered by status
+   */
+  static async getHouseInvitations(
+    houseId: string,
+    filters: InvitationFilterInput
+  ) {
+    const now = new Date();
+
+    const where: Prisma.InvitationWhereInput = {
+      houseId,
+      ...(filters.status === "active" && {
+        usedAt: null,
+        expiresAt: { gt: now },
+      }),
+      ...(filters.status === "used" && { usedAt: { not: null } }),
+      ...(filters.status === "expired" && {
+        usedAt: null,
+        expiresAt: { lte: now },
+      }),
+    };
+
+    const invitations = await prisma.invitation.findMany({
+      where,
+      include: invitationInclude,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return invitations;
+  }
+
+  /**
+   * Revoke (delete) an unused invitation (owner required)
+   */
+  static async revokeInvitation(houseId: string, invitationId: string) {
+    const invitation = await prisma.invitation.findFirst({
+      where: {
+        id: invitationId,
+        houseId,
+      },
+    });
+
+    if (!invitation) {
+      throw new NotFoundError("Invitation not found");
+    }
+
+    if (invitation.usedAt) {
+      throw new UnprocessableEntityError(
+        "Cannot revoke an invitation that has already been used"
+      );
+    }
+
+    await prisma.invitation.delete({
+      where: { id: invitationId },
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Redeem an invitation code and join the house
+   */
+  static async redeemInvitation(
+    code: string,
+    userId: string,
+    displayName: string
+  ) {
+    const invitation = await prisma.invitation.findUnique({
+      where: { code },
+    });
+
+    if (!invitation) {
+      throw new NotFoundError("Invitation not found");
+    }
+
+    if (invitation.usedAt) {
+      throw new UnprocessableEntityError("Invitation has already been used");
+    }
+
+    if (invitation.expiresAt <= new Date()) {
+      throw new UnprocessableEntityError("Invitation has expired");
+    }
+
+    // Check if user is already a member
+    const existingMember = await prisma.houseMember.findUnique({
+      where: {
+        userId_houseId: {
+          userId,
+          houseId: invitation.houseId,
+        },
+      },
+    });
+
+    if (existingMember) {
+      throw new ConflictError("You are already a member of this house");
+    }
+
+    const isAvailable = await HouseService.isDisplayNameAvailable(
+      invitation.houseId,
+      displayName
+    );
+
+    if (!isAvailable) {
+      throw new ConflictError("Display name already taken", {
+        displayName: "This display name is already used in this house",
+      });
+    }
+
+    // Claim invitation and create membership in a transaction
+    try {
+      const member = await prisma.$transaction(async (tx) => {
+        const now = new Date();
+
+        // Conditional update guards against concurrent redemptions
+        const claimed = await tx.invitation.updateMany({
+          where: {
+            id: invitation.id,
+            usedAt: null,
+            expiresAt: { gt: now },
+          },
+          data: {
+            usedAt: now,
+            usedById: userId,
+          },
+        });
+
+        if (claimed.count === 0) {
+          throw new UnprocessableEntityError(
+            "Invitation is no longer valid"
+          );
+        }
+
+        const created = await tx.houseMember.create({
+          data: {
+            userId,
+            houseId: invitation.houseId,
+            displayName,
+            role: "MEMBER",
+          },
+          include: {
+            house: true,
+          },
+        });
+
+        await recordHouseEvent(tx, {
+          type: "MEMBER_JOINED",
+          member: created,
+          actorId: created.id,
+          invitationId: invitation.id,
+        });
+
+        return created;
+      });
+
+      RealtimeService.publish(member.houseId, "member.joined", member.id, {
+        member: toRealtimeMember(member),
+      });
+
+      NotificationDispatcher.memberJoined(
+        member,
+        member.house.name,
+        invitation.createdById
+      );
+
+      return {
+        ...member.house,
+        memberInfo: {
+          displayName: member.displayName,
+          role: member.role,
+          joinedAt: member.createdAt,
+        },
+      };
+    } catch (error) {
+      // Unique constraints may still trip if another request won the race
+      if (isUniqueConstraintError(error, "displayName")) {
+        throw new ConflictError("Display name already taken", {
+          displayName: "This display name is already used in this house",
+        });
+      }
+      if (isUniqueConstraintError(error)) {
+        throw new ConflictError("You are already a member of this house");
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Helper method to generate a random invitation code
+   */
+  private static generateCode(): string {
+    let code = "";
+    for (let i = 0; i < CODE_LENGTH; i++) {
+      code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+    }
+    return code;
+  }
+}
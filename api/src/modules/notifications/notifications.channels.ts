@@ -0,0 +1,145 @@
+import {
+  NotificationSettings,
+  NotificationType,
+  Prisma,
+  PrismaClient,
+} from "@prisma/client";
+import { PushMessage, sendPush } from "../../shared/push/push";
+
+const prisma = new PrismaClient();
+
+/**
+ * Notification for some members of a house
+ */
+export interface NotificationInput {
+  type: NotificationType;
+  houseId: string;
+  recipientIds: string[]; // House member IDs
+  actorId: string | null; // Member who caused it, never notified
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Way of delivering notifications to members (push, ...)
+ * Recipients passed to a channel never include the actor
+ */
+export interface NotificationChannel {
+  deliver(notification: NotificationInput): Promise<void>;
+}
+
+/**
+ * Checks whether a time falls in the user's quiet hours
+ * Quiet hours may span midnight (e.g. 22:00 to 07:00)
+ */
+export const isQuietTime = (
+  settings: Pick<
+    NotificationSettings,
+    "quietHoursStart" | "quietHoursEnd" | "timeZone"
+  > | null,
+  date: Date
+): boolean => {
+  if (!settings?.quietHoursStart || !settings.quietHoursEnd) {
+    return false;
+  }
+
+  const localTime = new Intl.DateTimeFormat("en-GB", {
+    timeZone: settings.timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(date);
+
+  const { quietHoursStart: start, quietHoursEnd: end } = settings;
+
+  return start < end
+    ? localTime >= start && localTime < end
+    : localTime >= start || localTime < end;
+};
+
+/**
+ * In-app inbox of the recipients
+ * Every notification is kept, whatever the push preferences
+ */
+export class InboxChannel implements NotificationChannel {
+  async deliver(notification: NotificationInput): Promise<void> {
+    const recipients = await prisma.houseMember.findMany({
+      where: {
+        id: { in: notification.recipientIds },
+        houseId: notification.houseId,
+      },
+      select: { userId: true },
+    });
+
+    await prisma.notification.createMany({
+      data: recipients.map(({ userId }) => ({
+        type: notification.type,
+        title: notification.title,
+        body: notification.body,
+        data: notification.data as Prisma.InputJsonObject | undefined,
+        userId,
+        houseId: notification.houseId,
+        actorId: notification.actorId,
+      })),
+    });
+  }
+}
+
+/**
+ * Push notifications to the recipients' registered devices
+ * Skips members who muted the house or the type, or are in quiet hours
+ */
+export class PushChannel implements NotificationChannel {
+  async deliver(notification: NotificationInput): Promise<void> {
+    const recipients = await prisma.houseMember.findMany({
+      where: {
+        id: { in: notification.recipientIds },
+        houseId: notification.houseId,
+        notificationsEnabled: true,
+        user: {
+          notificationPreferences: {
+            none: { type: notification.type, enabled: false },
+          },
+        },
+      },
+      include: {
+        user: {
+          select: {
+            notificationSettings: true,
+            pushTokens: { select: { token: true } },
+          },
+        },
+      },
+    });
+
+    const now = new Date();
+    const messages: PushMessage[] = recipients
+      .filter(({ user }) => !isQuietTime(user.notificationSettings, now))
+      .flatMap(({ user }) =>
+        user.pushTokens.map(({ token }) => ({
+          to: token,
+          title: notification.title,
+          body: notification.body,
+          data: {
+            type: notification.type,
+            houseId: notification.houseId,
+            ...notification.data,
+          },
+        }))
+      );
+
+    const results = await sendPush(messages);
+
+    // Devices that uninstalled the app or revoked permission
+    const invalidTokens = results
+      .filter((result) => result.invalidToken)
+      .map((result) => result.token);
+
+    if (invalidTokens.length > 0) {
+      await prisma.pushToken.deleteMany({
+        where: { token: { in: invalidTokens } },
+      });
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { Response } from "express";
+import { AuthRequest } from "../../shared/middleware/auth.middleware";
+import { validateData } from "../../shared/utils/validation";
+import { NotificationService } from "./notifications.service";
+import {
+  markAsReadSchema,
+  notificationListSchema,
+  registerPushTokenSchema,
+  unregisterPushTokenSchema,
+  updatePreferencesSchema,
+} from "./notifications.schema";
+
+export class NotificationController {
+  /**
+   * GET /api/v1/notifications
+   * Get the inbox of the current user with their unread count
+   */
+  static async getNotifications(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const query = validateData(notificationListSchema, req.query);
+
+    const result = await NotificationService.getNotifications(
+      req.user!.id,
+      query
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  }
+
+  /**
+   * POST /api/v1/notifications/read
+   * Mark notifications of the current user as read (by ids or all)
+   */
+  static async markAsRead(req: AuthRequest, res: Response): Promise<void> {
+    const readData = validateData(markAsReadSchema, req.body);
+
+    const result = await NotificationService.markAsRead(
+      req.user!.id,
+      readData
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  }
+
+  /**
+   * POST /api/v1/notifications/push-tokens
+   * Register the device push token of the current user
+   */
+  static async registerPushToken(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const tokenData = validateData(registerPushTokenSchema, req.body);
+
+    const pushToken = await NotificationService.registerPushToken(
+      req.user!.id,
+      tokenData
+    );
+
+    res.status(201).json({
+      success: true,
+      data: { pushToken },
+    });
+  }
+
+  /**
+   * DELETE /api/v1/notifications/push-tokens
+   * Unregister a device push token (e.g. before logging out)
+   */
+  static async unregisterPushToken(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const tokenData = validateData(unregisterPushTokenSchema, req.body);
+
+    await NotificationService.unregisterPushToken(req.user!.id, tokenData);
+
+    res.json({
+      success: true,
+      data: { message: "Push token removed successfully" },
+    });
+  }
+
+  /**
+   * GET /api/v1/notifications/preferences
+   * Get notification preferences of the current user
+   */
+  static async getPreferences(req: AuthRequest, res: Response): Promise<void> {
+    const preferences = await NotificationService.getPreferences(req.user!.id);
+
+    res.json({
+      success: true,
+      data: { preferences },
+    });
+  }
+
+  /**
+   * PUT /api/v1/notifications/preferences
+   * Update notification types, quiet hours and time zone
+   */
+  static async updatePreferences(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const updateData = validateData(updatePreferencesSchema, req.body);
+
+    const preferences = await NotificationService.updatePreferences(
+      req.user!.id,
+      updateData
+    );
+
+    res.json({
+      success: true,
+      data: { preferences },
+    });
+  }
+}
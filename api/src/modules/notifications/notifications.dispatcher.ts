@@ -0,0 +1,228 @@
+import { PrismaClient, Role } from "@prisma/client";
+import {
+  InboxChannel,
+  NotificationChannel,
+  NotificationInput,
+  PushChannel,
+} from "./notifications.channels";
+
+const prisma = new PrismaClient();
+
+interface NotifiedTask {
+  id: string;
+  houseId: string;
+  title: string;
+  createdById: string | null;
+}
+
+interface NotifiedMember {
+  id: string;
+  houseId: string;
+  displayName: string;
+  role: Role;
+}
+
+let channels: NotificationChannel[] | null = null;
+
+/**
+ * Replaces the delivery channels (e.g. with in-memory ones in tests)
+ *
+ * @param newChannels - Channels to use, or null to go back to the default ones
+ */
+export const setNotificationChannels = (
+  newChannels: NotificationChannel[] | null
+): void => {
+  channels = newChannels;
+};
+
+export class NotificationDispatcher {
+  /**
+   * Deliver a notification to its recipients through every channel
+   * The actor is removed from the recipients
+   */
+  static async dispatch(input: NotificationInput): Promise<void> {
+    const recipientIds = input.recipientIds.filter(
+      (id) => id !== input.actorId
+    );
+
+    if (recipientIds.length === 0) {
+      return;
+    }
+
+    if (!channels) {
+      channels = [new InboxChannel(), new PushChannel()];
+    }
+
+    const notification = { ...input, recipientIds };
+
+    await Promise.all(
+      channels.map((channel) => channel.deliver(notification))
+    );
+  }
+
+  /**
+   * Notify members newly assigned to a task
+   * Runs in the background, failures are logged
+   */
+  static taskAssigned(
+    task: NotifiedTask,
+    assigneeIds: string[],
+    actorId: string | null
+  ): void {
+    this.runInBackground(async () => {
+      const actorName = await this.getActorName(actorId);
+
+      await this.dispatch({
+        type: "TASK_ASSIGNED",
+        houseId: task.houseId,
+        recipientIds: assigneeIds,
+        actorId,
+        title: "New task for you",
+        body: `${actorName} assigned you "${task.title}"`,
+        data: { taskId: task.id },
+      });
+    });
+  }
+
+  /**
+   * Notify the creator of a task that it was completed
+   * Runs in the background, failures are logged
+   */
+  static taskCompleted(task: NotifiedTask, actorId: string | null): void {
+    if (!task.createdById) {
+      return;
+    }
+
+    const creatorId = task.createdById;
+
+    this.runInBackground(async () => {
+      const actorName = await this.getActorName(actorId);
+
+      await this.dispatch({
+        type: "TASK_COMPLETED",
+        houseId: task.houseId,
+        recipientIds: [creatorId],
+        actorId,
+        title: "Task completed",
+        body: `${actorName} completed "${task.title}"`,
+        data: { taskId: task.id },
+      });
+    });
+  }
+
+  /**
+   * Notify members mentioned in a task comment
+   * Runs in the background, failures are logged
+   */
+  static mentioned(
+    comment: { id: string; taskId: string },
+    memberIds: string[],
+    actorId: string
+  ): void {
+    if (memberIds.length === 0) {
+      return;
+    }
+
+    this.runInBackground(async () => {
+      const [task, actorName] = await Promise.all([
+        prisma.task.findUniqueOrThrow({
+          where: { id: comment.taskId },
+          select: { houseId: true, title: true },
+        }),
+        this.getActorName(actorId),
+      ]);
+
+      await this.dispatch({
+        type: "MENTIONED",
+        houseId: task.houseId,
+        recipientIds: memberIds,
+        actorId,
+        title: "You were mentioned",
+        body: `${actorName} mentioned you on "${task.title}"`,
+        data: { taskId: comment.taskId, commentId: comment.id },
+      });
+    });
+  }
+
+  /**
+   * Notify the owners and the inviter that a member joined the house
+   * Runs in the background, failures are logged
+   */
+  static memberJoined(
+    member: NotifiedMember,
+    houseName: string,
+    inviterId: string
+  ): void {
+    this.runInBackground(async () => {
+      const owners = await prisma.houseMember.findMany({
+        where: { houseId: member.houseId, role: "OWNER" },
+        select: { id: true },
+      });
+
+      const recipientIds = new Set([inviterId, ...owners.map(({ id }) => id)]);
+
+      await this.dispatch({
+        type: "MEMBER_JOINED",
+        houseId: member.houseId,
+        recipientIds: [...recipientIds],
+        actorId: member.id,
+        title: "New housemate",
+        body: `${member.displayName} joined "${houseName}"`,
+        data: { memberId: member.id },
+      });
+    });
+  }
+
+  /**
+   * Notify a member that their role changed
+   * Runs in the background, failures are logged
+   */
+  static roleChanged(member: NotifiedMember, actorId: string | null): void {
+    this.runInBackground(async () => {
+      const [house, actorName] = await Promise.all([
+        prisma.house.findUniqueOrThrow({
+          where: { id: member.houseId },
+          select: { name: true },
+        }),
+        this.getActorName(actorId),
+      ]);
+
+      const role = member.role === "OWNER" ? "an owner" : "a member";
+
+      await this.dispatch({
+        type: "ROLE_CHANGED",
+        houseId: member.houseId,
+        recipientIds: [member.id],
+        actorId,
+        title: "Your role changed",
+        body: `${actorName} made you ${role} of "${house.name}"`,
+        data: { memberId: member.id, role: member.role },
+      });
+    });
+  }
+
+  /**
+   * Helper method to get the display name of the member who caused a notification
+   */
+  private static async getActorName(actorId: string | null): Promise<string> {
+    if (!actorId) {
+      return "Someone";
+    }
+
+    const actor = await prisma.houseMember.findUnique({
+      where: { id: actorId },
+      select: { displayName: true },
+    });
+
+    return actor?.displayName ?? "Someone";
+  }
+
+  /**
+   * Helper method to send notifications without delaying or failing the request
+   */
+  private static runInBackground(job: () => Promise<unknown>): void {
+    job().catch((error) => {
+      console.error("Failed to send notification:", error);
+    });
+  }
+}
@@ -0,0 +1,40 @@
+import { Router } from "express";
+import { NotificationController } from "./notifications.controller";
+import { authenticate } from "../../shared/middleware/auth.middleware";
+
+const router = Router();
+
+// All notification routes act on the authenticated user
+
+// Inbox routes
+router.get("/", authenticate, NotificationController.getNotifications);
+
+router.post("/read", authenticate, NotificationController.markAsRead);
+
+// Push token routes
+router.post(
+  "/push-tokens",
+  authenticate,
+  NotificationController.registerPushToken
+);
+
+router.delete(
+  "/push-tokens",
+  authenticate,
+  NotificationController.unregisterPushToken
+);
+
+// Preference routes
+router.get(
+  "/preferences",
+  authenticate,
+  NotificationController.getPreferences
+);
+
+router.put(
+  "/preferences",
+  authenticate,
+  NotificationController.updatePreferences
+);
+
+export default router;
@@ -0,0 +1,106 @@
+import { z } from "zod";
+import { cursorParamSchema } from "../../shared/utils/pagination";
+
+// Notification types users can switch on or off
+export const notificationTypeSchema = z.enum([
+  "TASK_ASSIGNED",
+  "TASK_COMPLETED",
+  "TASK_DUE",
+  "TASK_OVERDUE",
+  "MENTIONED",
+  "MEMBER_JOINED",
+  "ROLE_CHANGED",
+]);
+
+// Time of day validation: "HH:mm", 24-hour clock
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:mm format");
+
+// IANA time zone validation, e.g. "Europe/Paris"
+const timeZoneSchema = z.string().refine(
+  (value) => {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: value });
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: "Invalid time zone" }
+);
+
+// Schema for registering a device push token
+export const registerPushTokenSchema = z.object({
+  token: z
+    .string()
+    .trim()
+    .min(1, "Push token is required")
+    .max(255, "Push token is too long"),
+  platform: z.enum(["ios", "android", "web"]).optional(),
+});
+
+// Schema for unregistering a device push token (e.g. on logout)
+export const unregisterPushTokenSchema = z.object({
+  token: z.string().trim().min(1, "Push token is required"),
+});
+
+// Schema for updating notification preferences
+export const updatePreferencesSchema = z
+  .object({
+    types: z.partialRecord(notificationTypeSchema, z.boolean()).optional(),
+    quietHours: z
+      .object({
+        start: timeOfDaySchema,
+        end: timeOfDaySchema,
+      })
+      .refine((data) => data.start !== data.end, {
+        message: "Quiet hours must start and end at different times",
+      })
+      .nullable()
+      .optional(),
+    timeZone: timeZoneSchema.optional(),
+  })
+  .refine(
+    (data) =>
+      data.types !== undefined ||
+      data.quietHours !== undefined ||
+      data.timeZone !== undefined,
+    { message: "At least one field is required" }
+  );
+
+// Schema for inbox query parameters
+export const notificationListSchema = z
+  .object({
+    unread: z.string().transform(val => val === "true").optional(),
+    houseId: z.string().uuid({ message: "Invalid house ID" }).optional(),
+    cursor: cursorParamSchema.optional(),
+    page: z.string().transform(val => Math.max(parseInt(val) || 1, 1)).optional(),
+    limit: z.string().transform(val => Math.max(Math.min(parseInt(val) || 20, 100), 1)).optional(),
+  })
+  .refine((data) => !data.cursor || data.page === undefined, {
+    message: "Use either page or cursor",
+    path: ["cursor"],
+  });
+
+// Schema for marking inbox notifications as read
+export const markAsReadSchema = z
+  .object({
+    ids: z
+      .array(z.string().uuid({ message: "Invalid notification ID" }))
+      .min(1, "At least one notification ID is required")
+      .max(100, "Cannot mark more than 100 notifications at once")
+      .optional(),
+    all: z.literal(true).optional(),
+  })
+  .refine((data) => (data.ids !== undefined) !== (data.all !== undefined), {
+    message: "Provide either ids or all",
+  });
+
+// Type exports for TypeScript
+export type NotificationTypeInput = z.infer<typeof notificationTypeSchema>;
+export type RegisterPushTokenInput = z.infer<typeof registerPushTokenSchema>;
+export type UnregisterPushTokenInput = z.infer<typeof unregisterPushTokenSchema>;
+export type UpdatePreferencesInput = z.infer<typeof updatePreferencesSchema>;
+export type NotificationListInput = z.infer<typeof notificationListSchema>;
+export type MarkAsReadInput = z.infer<typeof markAsReadSchema>;
@@ -0,0 +1,295 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import {
+  MarkAsReadInput,
+  NotificationListInput,
+  notificationTypeSchema,
+  RegisterPushTokenInput,
+  UnregisterPushTokenInput,
+  UpdatePreferencesInput,
+} from "./notifications.schema";
+import {
+  getCursorWhere,
+  SortField,
+  toCursorPage,
+  toOrderBy,
+} from "../../shared/utils/pagination";
+
+const prisma = new PrismaClient();
+
+// Inbox order, newest first
+const notificationSortFields: SortField[] = [
+  { field: "createdAt", order: "desc", isDate: true },
+  { field: "id", order: "desc" },
+];
+
+const notificationInclude = {
+  house: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  actor: {
+    select: {
+      id: true,
+      displayName: true,
+    },
+  },
+} satisfies Prisma.NotificationInclude;
+
+export class NotificationService {
+  /**
+   * Get the inbox of the user across their houses, newest first
+   * Notifications of houses the user has left are hidden
+   */
+  static async getNotifications(
+    userId: string,
+    query: NotificationListInput
+  ) {
+    const { unread, houseId, cursor, page = 1, limit = 20 } = query;
+
+    const visibleWhere = this.getVisibleWhere(userId);
+
+    const where: Prisma.NotificationWhereInput = {
+      ...visibleWhere,
+      ...(houseId && { houseId }),
+      ...(unread && { readAt: null }),
+    };
+
+    const findNotifications = (
+      pageWhere: Prisma.NotificationWhereInput,
+      skip: number
+    ) =>
+      prisma.notification.findMany({
+        where: pageWhere,
+        include: notificationInclude,
+        orderBy: toOrderBy<Prisma.NotificationOrderByWithRelationInput>(
+          notificationSortFields
+        ),
+        skip,
+        // One extra notification tells whether there is a next page
+        take: limit + 1,
+      });
+
+    const countUnread = () =>
+      prisma.notification.count({
+        where: { ...visibleWhere, readAt: null },
+      });
+
+    if (cursor) {
+      const cursorWhere = getCursorWhere<Prisma.NotificationWhereInput>(
+        cursor,
+        notificationSortFields
+      );
+      const [notifications, unreadCount] = await Promise.all([
+        findNotifications({ AND: [where, cursorWhere] }, 0),
+        countUnread(),
+      ]);
+      const { items, hasMore, nextCursor } = toCursorPage(
+        notifications,
+        limit,
+        notificationSortFields
+      );
+
+      return {
+        notifications: items,
+        unreadCount,
+        pagination: { limit, hasMore, nextCursor },
+      };
+    }
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      findNotifications(where, (page - 1) * limit),
+      prisma.notification.count({ where }),
+      countUnread(),
+    ]);
+    const { items, hasMore, nextCursor } = toCursorPage(
+      notifications,
+      limit,
+      notificationSortFields
+    );
+
+    return {
+      notifications: items,
+      unreadCount,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+        hasMore,
+        nextCursor,
+      },
+    };
+  }
+
+  /**
+   * Mark some or all notifications of the user as read
+   * Already read notifications keep their read date
+   */
+  static async markAsRead(userId: string, data: MarkAsReadInput) {
+    const result = await prisma.notification.updateMany({
+      where: {
+        userId,
+        readAt: null,
+        ...(data.ids && { id: { in: data.ids } }),
+      },
+      data: { readAt: new Date() },
+    });
+
+    const unreadCount = await prisma.notification.count({
+      where: { ...this.getVisibleWhere(userId), readAt: null },
+    });
+
+    return { updatedCount: result.count, unreadCount };
+  }
+
+  /**
+   * Register a device push token for the user
+   * A token already registered by another account moves to this user
+   */
+  static async registerPushToken(
+    userId: string,
+    data: RegisterPushTokenInput
+  ) {
+    const pushToken = await prisma.pushToken.upsert({
+      where: { token: data.token },
+      create: {
+        token: data.token,
+        platform: data.platform,
+        userId,
+      },
+      update: {
+        platform: data.platform,
+        userId,
+      },
+      select: {
+        id: true,
+        token: true,
+        platform: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+
+    return pushToken;
+  }
+
+  /**
+   * Unregister a device push token of the user
+   */
+  static async unregisterPushToken(
+    userId: string,
+    data: UnregisterPushTokenInput
+  ) {
+    await prisma.pushToken.deleteMany({
+      where: {
+        token: data.token,
+        userId,
+      },
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Get notification preferences of the user
+   * Types without a saved preference are enabled
+   */
+  static async getPreferences(userId: string) {
+    const [preferences, settings, memberships] = await Promise.all([
+      prisma.notificationPreference.findMany({
+        where: { userId },
+      }),
+      prisma.notificationSettings.findUnique({
+        where: { userId },
+      }),
+      prisma.houseMember.findMany({
+        where: { userId },
+        select: {
+          houseId: true,
+          notificationsEnabled: true,
+          house: { select: { name: true } },
+        },
+        orderBy: { createdAt: "asc" },
+      }),
+    ]);
+
+    const types = Object.fromEntries(
+      notificationTypeSchema.options.map((type) => [
+        type,
+        preferences.find((p) => p.type === type)?.enabled ?? true,
+      ])
+    );
+
+    const quietHours =
+      settings?.quietHoursStart && settings.quietHoursEnd
+        ? { start: settings.quietHoursStart, end: settings.quietHoursEnd }
+        : null;
+
+    return {
+      types,
+      quietHours,
+      timeZone: settings?.timeZone ?? "UTC",
+      houses: memberships.map((membership) => ({
+        houseId: membership.houseId,
+        name: membership.house.name,
+        notificationsEnabled: membership.notificationsEnabled,
+      })),
+    };
+  }
+
+  /**
+   * Update notification types, quiet hours and/or time zone of the user
+   */
+  static async updatePreferences(
+    userId: string,
+    data: UpdatePreferencesInput
+  ) {
+    await prisma.$transaction(async (tx) => {
+      for (const [type, enabled] of Object.entries(data.types ?? {})) {
+        const notificationType = notificationTypeSchema.parse(type);
+
+        await tx.notificationPreference.upsert({
+          where: { userId_type: { userId, type: notificationType } },
+          create: { userId, type: notificationType, enabled },
+          update: { enabled },
+        });
+      }
+
+      if (data.quietHours !== undefined || data.timeZone !== undefined) {
+        const settings = {
+          ...(data.quietHours !== undefined && {
+            quietHoursStart: data.quietHours?.start ?? null,
+            quietHoursEnd: data.quietHours?.end ?? null,
+          }),
+          ...(data.timeZone && { timeZone: data.timeZone }),
+        };
+
+        await tx.notificationSettings.upsert({
+          where: { userId },
+          create: { userId, ...settings },
+          update: settings,
+        });
+      }
+    });
+
+    return await this.getPreferences(userId);
+  }
+
+  /**
+   * Helper method to filter the notifications a user can still see
+   * (not tied to a house, or tied to a house they are a member of)
+   */
+  private static getVisibleWhere(
+    userId: string
+  ): Prisma.NotificationWhereInput {
+    return {
+      userId,
+      OR: [
+        { houseId: null },
+        { house: { members: { some: { userId } } } },
+      ],
+    };
+  }
+}
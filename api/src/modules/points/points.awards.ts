@@ -0,0 +1,75 @@
+import { Prisma } from "@prisma/client";
+
+// Effort of tasks without points whose category has none either
+export const DEFAULT_TASK_POINTS = 1;
+
+interface PointedTask {
+  id: string;
+  houseId: string;
+  title: string;
+  points: number | null;
+  category: { defaultPoints: number } | null;
+  assignees: { houseMemberId: string; createdAt: Date }[];
+}
+
+/**
+ * Effort of a task: its own points, else the default of its category
+ */
+export const getTaskPoints = (
+  task: Pick<PointedTask, "points" | "category">
+): number =>
+  task.points ?? task.category?.defaultPoints ?? DEFAULT_TASK_POINTS;
+
+/**
+ * Splits points into whole shares that add up to the total
+ * The remainder goes to the first shares (5 points for 2 gives 3 and 2)
+ */
+export const splitPoints = (points: number, count: number): number[] =>
+  Array.from(
+    { length: count },
+    (_, index) => Math.floor(points / count) + (index < points % count ? 1 : 0)
+  );
+
+/**
+ * Awards the points of a completed task to its assignees
+ * Call it with the transaction client of the status change; a task without
+ * assignees awards nothing
+ */
+export const awardTaskPoints = async (
+  tx: Prisma.TransactionClient,
+  task: PointedTask
+): Promise<void> => {
+  // Earliest assignees first, they get the remainder of the split
+  const assignees = [...task.assignees].sort(
+    (a, b) =>
+      a.createdAt.getTime() - b.createdAt.getTime() ||
+      a.houseMemberId.localeCompare(b.houseMemberId)
+  );
+  const shares = splitPoints(getTaskPoints(task), assignees.length);
+
+  await tx.pointAward.createMany({
+    data: assignees
+      .map((assignee, index) => ({
+        points: shares[index] ?? 0,
+        taskTitle: task.title,
+        houseId: task.houseId,
+        memberId: assignee.houseMemberId,
+        taskId: task.id,
+      }))
+      .filter((award) => award.points > 0),
+  });
+};
+
+/**
+ * Cancels the points awarded for a task that is re-opened
+ * Call it with the transaction client of the status change
+ */
+export const reverseTaskPoints = async (
+  tx: Prisma.TransactionClient,
+  taskId: string
+): Promise<void> => {
+  await tx.pointAward.updateMany({
+    where: { taskId, reversedAt: null },
+    data: { reversedAt: new Date() },
+  });
+};
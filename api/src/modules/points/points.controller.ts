@@ -0,0 +1,24 @@
+import { Response } from "express";
+import { AuthRequest } from "../../shared/middleware/auth.middleware";
+import { validateData } from "../../shared/utils/validation";
+import { PointsService } from "./points.service";
+import { leaderboardQuerySchema } from "./points.schema";
+import { houseIdParamSchema } from "../houses/houses.schema";
+
+export class PointsController {
+  /**
+   * GET /api/v1/houses/:id/leaderboard
+   * Get the points earned by each member over a week, month, year or ever
+   */
+  static async getLeaderboard(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const query = validateData(leaderboardQuerySchema, req.query);
+
+    const result = await PointsService.getLeaderboard(houseId, query);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  }
+}
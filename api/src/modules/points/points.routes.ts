@@ -0,0 +1,18 @@
+import { Router } from "express";
+import { PointsController } from "./points.controller";
+import { authenticate } from "../../shared/middleware/auth.middleware";
+import { requireHouseMember } from "../../shared/middleware/houses.middleware";
+
+const router = Router();
+
+// All points routes require authentication and house membership
+// House ID is passed as :id parameter
+
+router.get(
+  "/:id/leaderboard",
+  authenticate,
+  requireHouseMember,
+  PointsController.getLeaderboard
+);
+
+export default router;
@@ -0,0 +1,21 @@
+import { z } from "zod";
+
+// Leaderboard period validation
+const leaderboardPeriodSchema = z.enum(["week", "month", "year", "all"]);
+
+// Schema for leaderboard query parameters
+// date picks the period (any day of it), default is the current one
+export const leaderboardQuerySchema = z.object({
+  period: leaderboardPeriodSchema.default("week"),
+  date: z
+    .union([
+      z.string().date(),
+      z.string().datetime({ offset: true, message: "Invalid date format" }),
+    ])
+    .transform((val) => new Date(val))
+    .optional(),
+});
+
+// Type exports for TypeScript
+export type LeaderboardPeriod = z.infer<typeof leaderboardPeriodSchema>;
+export type LeaderboardQueryInput = z.infer<typeof leaderboardQuerySchema>;
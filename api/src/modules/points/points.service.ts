@@ -0,0 +1,95 @@
+import { PrismaClient } from "@prisma/client";
+import { LeaderboardPeriod, LeaderboardQueryInput } from "./points.schema";
+
+const prisma = new PrismaClient();
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Start and end of the UTC week (from Monday), month or year of a date
+ * The "all" period has no bounds
+ */
+const getPeriodRange = (
+  period: LeaderboardPeriod,
+  date: Date
+): { from: Date | null; to: Date | null } => {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  switch (period) {
+    case "week": {
+      const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+      const from = new Date(
+        Date.UTC(year, month, date.getUTCDate() - daysSinceMonday)
+      );
+      return { from, to: new Date(from.getTime() + WEEK_MS) };
+    }
+    case "month":
+      return {
+        from: new Date(Date.UTC(year, month, 1)),
+        to: new Date(Date.UTC(year, month + 1, 1)),
+      };
+    case "year":
+      return {
+        from: new Date(Date.UTC(year, 0, 1)),
+        to: new Date(Date.UTC(year + 1, 0, 1)),
+      };
+    case "all":
+      return { from: null, to: null };
+  }
+};
+
+export class PointsService {
+  /**
+   * Get the points earned by each member of a house over a period
+   * Reversed awards (re-opened tasks) do not count
+   */
+  static async getLeaderboard(houseId: string, query: LeaderboardQueryInput) {
+    const { period, date = new Date() } = query;
+    const { from, to } = getPeriodRange(period, date);
+
+    const [members, totals] = await Promise.all([
+      prisma.houseMember.findMany({
+        where: { houseId },
+        select: { id: true, displayName: true },
+      }),
+      prisma.pointAward.groupBy({
+        by: ["memberId"],
+        where: {
+          houseId,
+          reversedAt: null,
+          ...(from && to && { createdAt: { gte: from, lt: to } }),
+        },
+        _sum: { points: true },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const entries = members
+      .map((member) => {
+        const total = totals.find((t) => t.memberId === member.id);
+
+        return {
+          member,
+          points: total?._sum.points ?? 0,
+          tasks: total?._count._all ?? 0,
+        };
+      })
+      .sort(
+        (a, b) =>
+          b.points - a.points ||
+          a.member.displayName.localeCompare(b.member.displayName)
+      );
+
+    // Members with the same points share a rank (1, 1, 3)
+    const leaderboard = entries.map((entry) => ({
+      rank: entries.findIndex((e) => e.points === entry.points) + 1,
+      ...entry,
+    }));
+
+    return {
+      period: { type: period, from, to },
+      leaderboard,
+    };
+  }
+}
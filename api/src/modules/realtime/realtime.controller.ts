@@ -0,0 +1,85 @@
+import { Response } from "express";
+import { AuthRequest } from "../../shared/middleware/auth.middleware";
+import { validateData } from "../../shared/utils/validation";
+import { RealtimeEvent, RealtimeService } from "./realtime.service";
+import { assertActiveSession } from "../auth/auth.service";
+import { houseIdParamSchema } from "../houses/houses.schema";
+
+// Comment line sent periodically so proxies keep idle streams open
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// Delay the client waits before reconnecting after the stream drops
+const RECONNECT_DELAY_MS = 3 * 1000;
+
+/**
+ * Writes a Server-Sent Events message to the stream
+ */
+const writeMessage = (
+  res: Response,
+  type: string,
+  data: Record<string, unknown>,
+  id?: number
+): void => {
+  const idLine = id === undefined ? "" : `id: ${id}\n`;
+
+  res.write(`${idLine}event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+/**
+ * Writes a house change, with its context next to the event data
+ */
+const writeEvent = (res: Response, event: RealtimeEvent): void => {
+  const data = {
+    houseId: event.houseId,
+    actorId: event.actorId,
+    occurredAt: event.occurredAt,
+    ...event.data,
+  };
+
+  writeMessage(res, event.type, data, event.id);
+};
+
+export class RealtimeController {
+  /**
+   * GET /api/v1/houses/:id/stream
+   * Stream house changes as Server-Sent Events until the client disconnects
+   */
+  static async streamHouse(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      // Stop nginx from buffering the stream
+      "X-Accel-Buffering": "no",
+    });
+
+    res.write(`retry: ${RECONNECT_DELAY_MS}\n`);
+    writeMessage(res, "ready", { houseId, memberId: req.houseMember!.id });
+
+    const unsubscribe = RealtimeService.subscribe(houseId, {
+      userId: req.user!.id,
+      send: (event) => writeEvent(res, event),
+      close: () => res.end(),
+    });
+
+    const stop = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    };
+
+    // The session is checked again with each heartbeat, so a stream opened
+    // by a logged out or revoked session closes within one interval
+    const heartbeat = setInterval(() => {
+      assertActiveSession(req.user!.id, req.sessionId)
+        .then(() => res.write(": ping\n\n"))
+        .catch(() => {
+          stop();
+          res.end();
+        });
+    }, HEARTBEAT_INTERVAL_MS);
+
+    req.on("close", stop);
+  }
+}
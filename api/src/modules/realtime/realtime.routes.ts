@@ -0,0 +1,17 @@
+import { Router } from "express";
+import { RealtimeController } from "./realtime.controller";
+import { authenticate } from "../../shared/middleware/auth.middleware";
+import { requireHouseMember } from "../../shared/middleware/houses.middleware";
+
+const router = Router();
+
+// Live house updates, authenticated and authorized like the REST routes
+// House ID is passed as :id parameter
+router.get(
+  "/:id/stream",
+  authenticate,
+  requireHouseMember,
+  RealtimeController.streamHouse
+);
+
+export default router;
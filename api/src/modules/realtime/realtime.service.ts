@@ -0,0 +1,143 @@
+export type RealtimeEventType =
+  | "task.created"
+  | "task.updated"
+  | "task.status_changed"
+  | "task.assignees_changed"
+  | "task.deleted"
+  | "member.joined"
+  | "member.updated"
+  | "member.role_changed"
+  | "member.left"
+  | "member.removed"
+  | "house.deleted";
+
+/**
+ * Change broadcast to the members of a house
+ */
+export interface RealtimeEvent {
+  id: number;
+  type: RealtimeEventType;
+  houseId: string;
+  actorId: string | null; // House member who made the change
+  data: Record<string, unknown>;
+  occurredAt: Date;
+}
+
+/**
+ * Open connection of a user to a house stream
+ */
+export interface RealtimeSubscriber {
+  userId: string;
+  send(event: RealtimeEvent): void;
+  close(): void;
+}
+
+/**
+ * Member fields sent in membership events
+ */
+export const toRealtimeMember = (member: {
+  id: string;
+  userId: string;
+  displayName: string;
+  role: string;
+}) => ({
+  id: member.id,
+  userId: member.userId,
+  displayName: member.displayName,
+  role: member.role,
+});
+
+// Open connections per house (in-process, one API instance)
+const subscribers = new Map<string, Set<RealtimeSubscriber>>();
+
+// Increasing event id, lets clients spot events missed while reconnecting
+let lastEventId = 0;
+
+export class RealtimeService {
+  /**
+   * Register a connection to the stream of a house
+   *
+   * @returns Function removing the connection
+   */
+  static subscribe(houseId: string, subscriber: RealtimeSubscriber) {
+    let houseSubscribers = subscribers.get(houseId);
+
+    if (!houseSubscribers) {
+      houseSubscribers = new Set();
+      subscribers.set(houseId, houseSubscribers);
+    }
+
+    houseSubscribers.add(subscriber);
+
+    return () => this.unsubscribe(houseId, subscriber);
+  }
+
+  /**
+   * Broadcast an event to every connection of a house
+   * Call it once the change is committed
+   */
+  static publish(
+    houseId: string,
+    type: RealtimeEventType,
+    actorId: string | null,
+    data: Record<string, unknown>
+  ): void {
+    const houseSubscribers = subscribers.get(houseId);
+
+    if (!houseSubscribers) {
+      return;
+    }
+
+    const event: RealtimeEvent = {
+      id: ++lastEventId,
+      type,
+      houseId,
+      actorId,
+      data,
+      occurredAt: new Date(),
+    };
+
+    for (const subscriber of houseSubscribers) {
+      subscriber.send(event);
+    }
+  }
+
+  /**
+   * Close the connections of a user who is no longer a member of a house
+   */
+  static disconnectUser(houseId: string, userId: string): void {
+    for (const subscriber of subscribers.get(houseId) ?? []) {
+      if (subscriber.userId === userId) {
+        subscriber.close();
+        this.unsubscribe(houseId, subscriber);
+      }
+    }
+  }
+
+  /**
+   * Close every connection of a deleted house
+   */
+  static disconnectHouse(houseId: string): void {
+    for (const subscriber of subscribers.get(houseId) ?? []) {
+      subscriber.close();
+    }
+
+    subscribers.delete(houseId);
+  }
+
+  /**
+   * Helper method to remove a connection and forget houses without any
+   */
+  private static unsubscribe(
+    houseId: string,
+    subscriber: RealtimeSubscriber
+  ): void {
+    const houseSubscribers = subscribers.get(houseId);
+
+    houseSubscribers?.delete(subscriber);
+
+    if (houseSubscribers?.size === 0) {
+      subscribers.delete(houseId);
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { Response } from "express";
+import { AuthRequest } from "../../shared/middleware/auth.middleware";
+import { validateData } from "../../shared/utils/validation";
+import { ReminderService } from "./reminders.service";
+import {
+  updateHouseReminderSettingsSchema,
+  updateMemberReminderSettingsSchema,
+} from "./reminders.schema";
+import { houseIdParamSchema } from "../houses/houses.schema";
+
+export class ReminderController {
+  /**
+   * GET /api/v1/houses/:id/reminder-settings
+   * Get house reminder settings and the current member's overrides
+   */
+  static async getSettings(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+
+    const settings = await ReminderService.getSettings(
+      houseId,
+      req.houseMember!.id
+    );
+
+    res.json({
+      success: true,
+      data: { settings },
+    });
+  }
+
+  /**
+   * PUT /api/v1/houses/:id/reminder-settings
+   * Update house reminder settings (owner required)
+   */
+  static async updateHouseSettings(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const updateData = validateData(
+      updateHouseReminderSettingsSchema,
+      req.body
+    );
+
+    const settings = await ReminderService.updateHouseSettings(
+      houseId,
+      req.houseMember!.id,
+      updateData
+    );
+
+    res.json({
+      success: true,
+      data: { settings },
+    });
+  }
+
+  /**
+   * PUT /api/v1/houses/:id/reminder-settings/me
+   * Override house reminder settings for the current member
+   */
+  static async updateMySettings(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const updateData = validateData(
+      updateMemberReminderSettingsSchema,
+      req.body
+    );
+
+    const settings = await ReminderService.updateMemberSettings(
+      houseId,
+      req.houseMember!.id,
+      updateData
+    );
+
+    res.json({
+      success: true,
+      data: { settings },
+    });
+  }
+}
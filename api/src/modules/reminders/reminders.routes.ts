@@ -0,0 +1,37 @@
+import { Router } from "express";
+import { ReminderController } from "./reminders.controller";
+import { authenticate } from "../../shared/middleware/auth.middleware";
+import {
+  requireHouseMember,
+  requireOwner,
+} from "../../shared/middleware/houses.middleware";
+
+const router = Router();
+
+// All reminder routes require authentication and house membership
+// House ID is passed as :id parameter
+
+router.get(
+  "/:id/reminder-settings",
+  authenticate,
+  requireHouseMember,
+  ReminderController.getSettings
+);
+
+// Any member can override the house settings for themselves
+router.put(
+  "/:id/reminder-settings/me",
+  authenticate,
+  requireHouseMember,
+  ReminderController.updateMySettings
+);
+
+router.put(
+  "/:id/reminder-settings",
+  authenticate,
+  requireHouseMember,
+  requireOwner,
+  ReminderController.updateHouseSettings
+);
+
+export default router;
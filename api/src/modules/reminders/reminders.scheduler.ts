@@ -0,0 +1,471 @@
+import { Prisma, PrismaClient, ReminderJob } from "@prisma/client";
+import { NotificationDispatcher } from "../notifications/notifications.dispatcher";
+
+const prisma = new PrismaClient();
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// Jobs are created shortly before they run, so setting changes apply until then
+const PLAN_AHEAD_MS = 10 * MINUTE_MS;
+
+// Longest due reminder offset (see dueReminderHoursSchema)
+const MAX_REMINDER_HOURS = 168;
+
+// Digests missed for longer than this (server down) are not sent late
+const DIGEST_GRACE_MS = 6 * HOUR_MS;
+
+// Claimed jobs not finished after this were interrupted (crash, restart)
+const STALE_LOCK_MS = 10 * MINUTE_MS;
+
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 5 * MINUTE_MS;
+const BATCH_SIZE = 50;
+
+// Finished jobs are kept this long for troubleshooting
+const JOB_RETENTION_MS = 30 * 24 * HOUR_MS;
+
+const DEFAULT_INTERVAL_SECONDS = 60;
+
+let timer: NodeJS.Timeout | null = null;
+let isTickRunning = false;
+
+/**
+ * Gets the calendar date of an instant in a time zone ("YYYY-MM-DD")
+ */
+const getLocalDate = (date: Date, timeZone: string): string =>
+  new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+
+/**
+ * Adds days to a calendar date ("YYYY-MM-DD")
+ */
+const addDays = (localDate: string, days: number): string => {
+  const [year, month, day] = localDate.split("-").map(Number);
+
+  return new Date(Date.UTC(year!, month! - 1, day! + days))
+    .toISOString()
+    .slice(0, 10);
+};
+
+/**
+ * Gets the instant when a calendar date reaches an hour in a time zone
+ */
+const getZonedTime = (
+  localDate: string,
+  hour: number,
+  timeZone: string
+): Date => {
+  const [year, month, day] = localDate.split("-").map(Number);
+  const guess = Date.UTC(year!, month! - 1, day!, hour);
+
+  // Wall clock of the zone at that instant, read as UTC, gives its offset
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+  }).formatToParts(new Date(guess));
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  const wallClock = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute")
+  );
+
+  return new Date(guess - (wallClock - guess));
+};
+
+/**
+ * Describes the time left before a due date ("in 3 hours")
+ */
+const formatDueIn = (dueDate: Date, now: Date): string => {
+  const timeLeft = dueDate.getTime() - now.getTime();
+  const hours = Math.round(timeLeft / HOUR_MS);
+
+  if (timeLeft < HOUR_MS) {
+    return "in less than an hour";
+  }
+  if (hours < 48) {
+    return `in ${hours} hour${hours === 1 ? "" : "s"}`;
+  }
+  return `in ${Math.round(hours / 24)} days`;
+};
+
+export class ReminderScheduler {
+  /**
+   * Run one scheduler pass: plan upcoming jobs, then run the due ones
+   */
+  static async tick(now: Date = new Date()): Promise<void> {
+    await this.releaseStaleJobs(now);
+    await this.planDueReminders(now);
+    await this.planOverdueDigests(now);
+    await this.runDueJobs(now);
+    await this.deleteFinishedJobs(now);
+  }
+
+  /**
+   * Helper method to create due reminder jobs for assignees whose time is near
+   * The due date is part of the key, so a rescheduled task is reminded again
+   */
+  private static async planDueReminders(now: Date): Promise<void> {
+    const horizon = new Date(
+      now.getTime() + MAX_REMINDER_HOURS * HOUR_MS + PLAN_AHEAD_MS
+    );
+
+    const tasks = await prisma.task.findMany({
+      where: {
+        status: "PENDING",
+        dueDate: { gt: now, lte: horizon },
+        assignees: { some: {} },
+      },
+      select: {
+        id: true,
+        houseId: true,
+        dueDate: true,
+        house: { select: { dueReminderHours: true } },
+        assignees: {
+          select: {
+            houseMember: { select: { id: true, dueReminderHours: true } },
+          },
+        },
+      },
+    });
+
+    const jobs: Prisma.ReminderJobCreateManyInput[] = [];
+
+    for (const task of tasks) {
+      const dueDate = task.dueDate!;
+
+      for (const { houseMember } of task.assignees) {
+        const hours =
+          houseMember.dueReminderHours ?? task.house.dueReminderHours;
+        const remindAt = dueDate.getTime() - hours * HOUR_MS;
+
+        if (hours <= 0 || remindAt > now.getTime() + PLAN_AHEAD_MS) {
+          continue;
+        }
+
+        jobs.push({
+          type: "DUE_REMINDER",
+          dedupeKey: `due:${task.id}:${houseMember.id}:${dueDate.toISOString()}`,
+          // Tasks created closer to their due date are reminded right away
+          runAt: new Date(Math.max(remindAt, now.getTime())),
+          dueAt: dueDate,
+          houseId: task.houseId,
+          memberId: houseMember.id,
+          taskId: task.id,
+        });
+      }
+    }
+
+    await prisma.reminderJob.createMany({
+      data: jobs,
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * Helper method to create the daily digest job of members with overdue tasks
+   * Runs at the house digest hour in the member's time zone
+   */
+  private static async planOverdueDigests(now: Date): Promise<void> {
+    const members = await prisma.houseMember.findMany({
+      where: {
+        OR: [
+          { overdueDigestEnabled: true },
+          {
+            overdueDigestEnabled: null,
+            house: { overdueDigestEnabled: true },
+          },
+        ],
+        assignedTasks: {
+          some: { task: { status: "PENDING", dueDate: { lt: now } } },
+        },
+      },
+      select: {
+        id: true,
+        houseId: true,
+        house: { select: { overdueDigestHour: true } },
+        user: {
+          select: { notificationSettings: { select: { timeZone: true } } },
+        },
+      },
+    });
+
+    const jobs: Prisma.ReminderJobCreateManyInput[] = [];
+
+    for (const member of members) {
+      const timeZone = member.user.notificationSettings?.timeZone ?? "UTC";
+      const today = getLocalDate(now, timeZone);
+
+      // Tomorrow's digest may already be near just before local midnight
+      for (const localDate of [today, addDays(today, 1)]) {
+        const runAt = getZonedTime(
+          localDate,
+          member.house.overdueDigestHour,
+          timeZone
+        );
+
+        if (
+          runAt.getTime() > now.getTime() + PLAN_AHEAD_MS ||
+          runAt.getTime() < now.getTime() - DIGEST_GRACE_MS
+        ) {
+          continue;
+        }
+
+        jobs.push({
+          type: "OVERDUE_DIGEST",
+          dedupeKey: `digest:${member.id}:${localDate}`,
+          runAt,
+          houseId: member.houseId,
+          memberId: member.id,
+        });
+      }
+    }
+
+    await prisma.reminderJob.createMany({
+      data: jobs,
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * Helper method to claim and run due jobs, retrying failed ones later
+   */
+  private static async runDueJobs(now: Date): Promise<void> {
+    const jobs = await prisma.reminderJob.findMany({
+      where: {
+        status: "PENDING",
+        runAt: { lte: now },
+      },
+      orderBy: { runAt: "asc" },
+      take: BATCH_SIZE,
+    });
+
+    for (const job of jobs) {
+      // Conditional update so a job runs once, even with several instances
+      const claimed = await prisma.reminderJob.updateMany({
+        where: { id: job.id, status: "PENDING" },
+        data: {
+          status: "RUNNING",
+          lockedAt: now,
+          attempts: { increment: 1 },
+        },
+      });
+
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      try {
+        const isSent = await this.runJob(job, now);
+
+        await prisma.reminderJob.update({
+          where: { id: job.id },
+          data: {
+            status: isSent ? "DONE" : "SKIPPED",
+            lockedAt: null,
+            completedAt: new Date(),
+          },
+        });
+      } catch (error) {
+        const attempts = job.attempts + 1;
+        const lastError =
+          error instanceof Error ? error.message : String(error);
+
+        await prisma.reminderJob.update({
+          where: { id: job.id },
+          data:
+            attempts >= MAX_ATTEMPTS
+              ? { status: "FAILED", lockedAt: null, lastError }
+              : {
+                  status: "PENDING",
+                  lockedAt: null,
+                  lastError,
+                  runAt: new Date(now.getTime() + RETRY_DELAY_MS * attempts),
+                },
+        });
+      }
+    }
+  }
+
+  /**
+   * Helper method to send the notification of a job
+   *
+   * @returns false when the job is no longer relevant and was skipped
+   */
+  private static async runJob(job: ReminderJob, now: Date): Promise<boolean> {
+    if (job.type === "DUE_REMINDER") {
+      return await this.sendDueReminder(job, now);
+    }
+    return await this.sendOverdueDigest(job, now);
+  }
+
+  /**
+   * Helper method to remind an assignee of a task due soon
+   */
+  private static async sendDueReminder(
+    job: ReminderJob,
+    now: Date
+  ): Promise<boolean> {
+    if (!job.taskId) {
+      return false;
+    }
+
+    const task = await prisma.task.findFirst({
+      where: {
+        id: job.taskId,
+        status: "PENDING",
+        dueDate: job.dueAt,
+        assignees: { some: { houseMemberId: job.memberId } },
+      },
+    });
+
+    // Completed, rescheduled or reassigned since the job was planned
+    if (!task?.dueDate) {
+      return false;
+    }
+
+    await NotificationDispatcher.dispatch({
+      type: "TASK_DUE",
+      houseId: job.houseId,
+      recipientIds: [job.memberId],
+      actorId: null,
+      title: "Task due soon",
+      body: `"${task.title}" is due ${formatDueIn(task.dueDate, now)}`,
+      data: { taskId: task.id },
+    });
+
+    return true;
+  }
+
+  /**
+   * Helper method to send a member the list of their overdue tasks
+   */
+  private static async sendOverdueDigest(
+    job: ReminderJob,
+    now: Date
+  ): Promise<boolean> {
+    const [house, tasks] = await Promise.all([
+      prisma.house.findUniqueOrThrow({
+        where: { id: job.houseId },
+        select: { name: true },
+      }),
+      prisma.task.findMany({
+        where: {
+          houseId: job.houseId,
+          status: "PENDING",
+          dueDate: { lt: now },
+          assignees: { some: { houseMemberId: job.memberId } },
+        },
+        select: { id: true, title: true },
+        orderBy: { dueDate: "asc" },
+      }),
+    ]);
+
+    if (tasks.length === 0) {
+      return false;
+    }
+
+    const listed = tasks
+      .slice(0, 3)
+      .map((task) => `"${task.title}"`)
+      .join(", ");
+    const more = tasks.length > 3 ? ` and ${tasks.length - 3} more` : "";
+    const plural = tasks.length === 1 ? "" : "s";
+
+    await NotificationDispatcher.dispatch({
+      type: "TASK_OVERDUE",
+      houseId: job.houseId,
+      recipientIds: [job.memberId],
+      actorId: null,
+      title: `Overdue tasks in ${house.name}`,
+      body: `You have ${tasks.length} overdue task${plural}: ${listed}${more}`,
+      data: { taskIds: tasks.map((task) => task.id) },
+    });
+
+    return true;
+  }
+
+  /**
+   * Helper method to put back jobs left running by an interrupted process
+   */
+  private static async releaseStaleJobs(now: Date): Promise<void> {
+    await prisma.reminderJob.updateMany({
+      where: {
+        status: "RUNNING",
+        lockedAt: { lt: new Date(now.getTime() - STALE_LOCK_MS) },
+      },
+      data: {
+        status: "PENDING",
+        lockedAt: null,
+      },
+    });
+  }
+
+  /**
+   * Helper method to delete old finished jobs
+   */
+  private static async deleteFinishedJobs(now: Date): Promise<void> {
+    await prisma.reminderJob.deleteMany({
+      where: {
+        status: { in: ["DONE", "SKIPPED", "FAILED"] },
+        runAt: { lt: new Date(now.getTime() - JOB_RETENTION_MS) },
+      },
+    });
+  }
+}
+
+/**
+ * Starts running the reminder scheduler every REMINDER_INTERVAL_SECONDS
+ * Set REMINDERS_ENABLED=false to run the API without it
+ */
+export const startReminderScheduler = (): void => {
+  if (timer || process.env.REMINDERS_ENABLED === "false") {
+    return;
+  }
+
+  const intervalSeconds =
+    Number(process.env.REMINDER_INTERVAL_SECONDS) || DEFAULT_INTERVAL_SECONDS;
+
+  const runTick = () => {
+    // A slow pass is not overlapped by the next one
+    if (isTickRunning) {
+      return;
+    }
+
+    isTickRunning = true;
+    ReminderScheduler.tick()
+      .catch((error) => {
+        console.error("Reminder scheduler failed:", error);
+      })
+      .finally(() => {
+        isTickRunning = false;
+      });
+  };
+
+  timer = setInterval(runTick, intervalSeconds * 1000);
+  timer.unref();
+  runTick();
+};
+
+/**
+ * Stops the reminder scheduler
+ */
+export const stopReminderScheduler = (): void => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+// Hours before the due date, 0 turns due reminders off (max one week)
+const dueReminderHoursSchema = z
+  .number()
+  .int("Hours must be a whole number")
+  .min(0, "Hours cannot be negative")
+  .max(168, "Reminders can be sent at most 168 hours (one week) before");
+
+// Schema for house reminder settings (owner only)
+export const updateHouseReminderSettingsSchema = z
+  .object({
+    dueReminderHours: dueReminderHoursSchema.optional(),
+    overdueDigestEnabled: z.boolean().optional(),
+    overdueDigestHour: z
+      .number()
+      .int("Hour must be a whole number")
+      .min(0, "Hour must be between 0 and 23")
+      .max(23, "Hour must be between 0 and 23")
+      .optional(),
+  })
+  .refine(
+    (data) =>
+      data.dueReminderHours !== undefined ||
+      data.overdueDigestEnabled !== undefined ||
+      data.overdueDigestHour !== undefined,
+    { message: "At least one field is required" }
+  );
+
+// Schema for the current member's overrides, null means the house setting
+export const updateMemberReminderSettingsSchema = z
+  .object({
+    dueReminderHours: dueReminderHoursSchema.nullable().optional(),
+    overdueDigestEnabled: z.boolean().nullable().optional(),
+  })
+  .refine(
+    (data) =>
+      data.dueReminderHours !== undefined ||
+      data.overdueDigestEnabled !== undefined,
+    { message: "At least one field is required" }
+  );
+
+// Type exports for TypeScript
+export type UpdateHouseReminderSettingsInput = z.infer<
+  typeof updateHouseReminderSettingsSchema
+>;
+export type UpdateMemberReminderSettingsInput = z.infer<
+  typeof updateMemberReminderSettingsSchema
+>;
@@ -0,0 +1,96 @@
+import { PrismaClient } from "@prisma/client";
+import {
+  UpdateHouseReminderSettingsInput,
+  UpdateMemberReminderSettingsInput,
+} from "./reminders.schema";
+
+const prisma = new PrismaClient();
+
+const houseSettingsSelect = {
+  dueReminderHours: true,
+  overdueDigestEnabled: true,
+  overdueDigestHour: true,
+} as const;
+
+const memberSettingsSelect = {
+  dueReminderHours: true,
+  overdueDigestEnabled: true,
+} as const;
+
+export class ReminderService {
+  /**
+   * Get house reminder settings, the member's overrides and the result
+   */
+  static async getSettings(houseId: string, memberId: string) {
+    const [house, member] = await Promise.all([
+      prisma.house.findUniqueOrThrow({
+        where: { id: houseId },
+        select: houseSettingsSelect,
+      }),
+      prisma.houseMember.findUniqueOrThrow({
+        where: { id: memberId },
+        select: memberSettingsSelect,
+      }),
+    ]);
+
+    return {
+      house,
+      member,
+      effective: {
+        dueReminderHours: member.dueReminderHours ?? house.dueReminderHours,
+        overdueDigestEnabled:
+          member.overdueDigestEnabled ?? house.overdueDigestEnabled,
+        overdueDigestHour: house.overdueDigestHour,
+      },
+    };
+  }
+
+  /**
+   * Update the reminder settings of a house (owner required)
+   */
+  static async updateHouseSettings(
+    houseId: string,
+    memberId: string,
+    data: UpdateHouseReminderSettingsInput
+  ) {
+    await prisma.house.update({
+      where: { id: houseId },
+      data: {
+        ...(data.dueReminderHours !== undefined && {
+          dueReminderHours: data.dueReminderHours,
+        }),
+        ...(data.overdueDigestEnabled !== undefined && {
+          overdueDigestEnabled: data.overdueDigestEnabled,
+        }),
+        ...(data.overdueDigestHour !== undefined && {
+          overdueDigestHour: data.overdueDigestHour,
+        }),
+      },
+    });
+
+    return await this.getSettings(houseId, memberId);
+  }
+
+  /**
+   * Update the current member's reminder overrides
+   */
+  static async updateMemberSettings(
+    houseId: string,
+    memberId: string,
+    data: UpdateMemberReminderSettingsInput
+  ) {
+    await prisma.houseMember.update({
+      where: { id: memberId },
+      data: {
+        ...(data.dueReminderHours !== undefined && {
+          dueReminderHours: data.dueReminderHours,
+        }),
+        ...(data.overdueDigestEnabled !== undefined && {
+          overdueDigestEnabled: data.overdueDigestEnabled,
+        }),
+      },
+    });
+
+    return await this.getSettings(houseId, memberId);
+  }
+}
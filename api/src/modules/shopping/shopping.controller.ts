@@ -0,0 +1,200 @@
+import { Response } from "express";
+import { AuthRequest } from "../../shared/middleware/auth.middleware";
+import { validateData } from "../../shared/utils/validation";
+import { ShoppingService } from "./shopping.service";
+import {
+  createShoppingListSchema,
+  updateShoppingListSchema,
+  createShoppingItemSchema,
+  updateShoppingItemSchema,
+  convertToTaskSchema,
+  listIdParamSchema,
+  itemIdParamSchema,
+} from "./shopping.schema";
+import { houseIdParamSchema } from "../houses/houses.schema";
+
+export class ShoppingController {
+  /**
+   * GET /api/v1/houses/:id/shopping-lists
+   * Get house shopping lists with item counts
+   */
+  static async getHouseLists(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+
+    const lists = await ShoppingService.getHouseLists(houseId);
+
+    res.json({
+      success: true,
+      data: { lists },
+    });
+  }
+
+  /**
+   * POST /api/v1/houses/:id/shopping-lists
+   * Create a shopping list
+   */
+  static async createList(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const listData = validateData(createShoppingListSchema, req.body);
+
+    const list = await ShoppingService.createList(houseId, listData);
+
+    res.status(201).json({
+      success: true,
+      data: { list },
+    });
+  }
+
+  /**
+   * GET /api/v1/houses/:id/shopping-lists/:listId
+   * Get a shopping list with its items
+   */
+  static async getListById(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const { listId } = validateData(listIdParamSchema, req.params);
+
+    const list = await ShoppingService.getListById(listId, houseId);
+
+    res.json({
+      success: true,
+      data: { list },
+    });
+  }
+
+  /**
+   * PUT /api/v1/houses/:id/shopping-lists/:listId
+   * Rename a shopping list
+   */
+  static async updateList(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const { listId } = validateData(listIdParamSchema, req.params);
+    const updateData = validateData(updateShoppingListSchema, req.body);
+
+    const list = await ShoppingService.updateList(listId, houseId, updateData);
+
+    res.json({
+      success: true,
+      data: { list },
+    });
+  }
+
+  /**
+   * DELETE /api/v1/houses/:id/shopping-lists/:listId
+   * Delete a shopping list
+   */
+  static async deleteList(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const { listId } = validateData(listIdParamSchema, req.params);
+
+    await ShoppingService.deleteList(listId, houseId);
+
+    res.json({
+      success: true,
+      data: { message: "Shopping list deleted successfully" },
+    });
+  }
+
+  /**
+   * POST /api/v1/houses/:id/shopping-lists/:listId/items
+   * Add an item to a shopping list
+   */
+  static async addItem(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const { listId } = validateData(listIdParamSchema, req.params);
+    const itemData = validateData(createShoppingItemSchema, req.body);
+
+    const item = await ShoppingService.addItem(
+      listId,
+      houseId,
+      req.houseMember!.id,
+      itemData
+    );
+
+    res.status(201).json({
+      success: true,
+      data: { item },
+    });
+  }
+
+  /**
+   * PUT /api/v1/houses/:id/shopping-lists/:listId/items/:itemId
+   * Edit an item or mark it bought
+   */
+  static async updateItem(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const { listId } = validateData(listIdParamSchema, req.params);
+    const { itemId } = validateData(itemIdParamSchema, req.params);
+    const updateData = validateData(updateShoppingItemSchema, req.body);
+
+    const item = await ShoppingService.updateItem(
+      listId,
+      houseId,
+      itemId,
+      req.houseMember!.id,
+      updateData
+    );
+
+    res.json({
+      success: true,
+      data: { item },
+    });
+  }
+
+  /**
+   * DELETE /api/v1/houses/:id/shopping-lists/:listId/items/:itemId
+   * Delete an item
+   */
+  static async deleteItem(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const { listId } = validateData(listIdParamSchema, req.params);
+    const { itemId } = validateData(itemIdParamSchema, req.params);
+
+    await ShoppingService.deleteItem(listId, houseId, itemId);
+
+    res.json({
+      success: true,
+      data: { message: "Shopping item deleted successfully" },
+    });
+  }
+
+  /**
+   * POST /api/v1/houses/:id/shopping-lists/:listId/clear-bought
+   * Remove bought items from a list
+   */
+  static async clearBoughtItems(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const { listId } = validateData(listIdParamSchema, req.params);
+
+    const result = await ShoppingService.clearBoughtItems(listId, houseId);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  }
+
+  /**
+   * POST /api/v1/houses/:id/shopping-lists/:listId/convert-to-task
+   * Create a task for the shopping run
+   */
+  static async convertToTask(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const { listId } = validateData(listIdParamSchema, req.params);
+    const taskData = validateData(convertToTaskSchema, req.body ?? {});
+
+    const task = await ShoppingService.convertToTask(
+      listId,
+      houseId,
+      req.houseMember!.id,
+      taskData
+    );
+
+    res.status(201).json({
+      success: true,
+      data: { task },
+    });
+  }
+}
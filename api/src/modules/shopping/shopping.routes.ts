@@ -0,0 +1,84 @@
+import { Router } from "express";
+import { ShoppingController } from "./shopping.controller";
+import { authenticate } from "../../shared/middleware/auth.middleware";
+import { requireHouseMember } from "../../shared/middleware/houses.middleware";
+
+const router = Router();
+
+// All shopping routes require authentication and house membership
+// House ID is passed as :id parameter, list ID as :listId, item ID as :itemId
+
+// Shopping list routes
+router.get(
+  "/:id/shopping-lists",
+  authenticate,
+  requireHouseMember,
+  ShoppingController.getHouseLists
+);
+
+router.post(
+  "/:id/shopping-lists",
+  authenticate,
+  requireHouseMember,
+  ShoppingController.createList
+);
+
+router.get(
+  "/:id/shopping-lists/:listId",
+  authenticate,
+  requireHouseMember,
+  ShoppingController.getListById
+);
+
+router.put(
+  "/:id/shopping-lists/:listId",
+  authenticate,
+  requireHouseMember,
+  ShoppingController.updateList
+);
+
+router.delete(
+  "/:id/shopping-lists/:listId",
+  authenticate,
+  requireHouseMember,
+  ShoppingController.deleteList
+);
+
+// Shopping list action routes
+router.post(
+  "/:id/shopping-lists/:listId/clear-bought",
+  authenticate,
+  requireHouseMember,
+  ShoppingController.clearBoughtItems
+);
+
+router.post(
+  "/:id/shopping-lists/:listId/convert-to-task",
+  authenticate,
+  requireHouseMember,
+  ShoppingController.convertToTask
+);
+
+// Shopping item routes
+router.post(
+  "/:id/shopping-lists/:listId/items",
+  authenticate,
+  requireHouseMember,
+  ShoppingController.addItem
+);
+
+router.put(
+  "/:id/shopping-lists/:listId/items/:itemId",
+  authenticate,
+  requireHouseMember,
+  ShoppingController.updateItem
+);
+
+router.delete(
+  "/:id/shopping-lists/:listId/items/:itemId",
+  authenticate,
+  requireHouseMember,
+  ShoppingController.deleteItem
+);
+
+export default router;
@@ -0,0 +1,105 @@
+import { z } from "zod";
+
+// Shopping list name validation: 1-50 chars
+const listNameSchema = z
+  .string()
+  .trim()
+  .min(1, "List name is required")
+  .max(50, "List name must be at most 50 characters");
+
+// Item name validation: 1-100 chars
+const itemNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Item name is required")
+  .max(100, "Item name must be at most 100 characters");
+
+// Quantity validation: positive number (e.g. 0.5 kg, 6 eggs)
+const quantitySchema = z
+  .number()
+  .positive("Quantity must be greater than 0")
+  .max(10000, "Quantity is too large");
+
+// Unit validation: free text (kg, L, pack, ...)
+const unitSchema = z
+  .string()
+  .trim()
+  .min(1, "Unit cannot be empty")
+  .max(20, "Unit must be at most 20 characters");
+
+// Store validation: free text
+const storeSchema = z
+  .string()
+  .trim()
+  .min(1, "Store cannot be empty")
+  .max(50, "Store must be at most 50 characters");
+
+// Schema for creating a shopping list
+export const createShoppingListSchema = z.object({
+  name: listNameSchema,
+});
+
+// Schema for renaming a shopping list
+export const updateShoppingListSchema = z.object({
+  name: listNameSchema,
+});
+
+// Schema for adding an item to a list
+export const createShoppingItemSchema = z.object({
+  name: itemNameSchema,
+  quantity: quantitySchema.optional(),
+  unit: unitSchema.optional(),
+  store: storeSchema.optional(),
+});
+
+// Schema for editing an item or marking it bought (null clears optional fields)
+export const updateShoppingItemSchema = z
+  .object({
+    name: itemNameSchema.optional(),
+    quantity: quantitySchema.nullable().optional(),
+    unit: unitSchema.nullable().optional(),
+    store: storeSchema.nullable().optional(),
+    bought: z.boolean().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "At least one field is required",
+  });
+
+// Schema for turning a list into a task for whoever does the run
+export const convertToTaskSchema = z.object({
+  // Defaults to the member converting the list
+  assigneeId: z.string().uuid({ message: "Invalid assignee ID" }).optional(),
+  title: z
+    .string()
+    .trim()
+    .min(1, "Task title is required")
+    .max(100, "Task title must be at most 100 characters")
+    .optional(),
+  dueDate: z
+    .string()
+    .datetime({ message: "Invalid date format" })
+    .refine((date) => new Date(date) > new Date(), {
+      message: "Due date must be in the future",
+    })
+    .optional(),
+  categoryId: z.string().uuid({ message: "Invalid category ID" }).optional(),
+});
+
+// Schema for shopping list ID parameter validation
+export const listIdParamSchema = z.object({
+  listId: z.string().uuid({ message: "Invalid shopping list ID format" }),
+});
+
+// Schema for shopping item ID parameter validation
+export const itemIdParamSchema = z.object({
+  itemId: z.string().uuid({ message: "Invalid shopping item ID format" }),
+});
+
+// Type exports for TypeScript
+export type CreateShoppingListInput = z.infer<typeof createShoppingListSchema>;
+export type UpdateShoppingListInput = z.infer<typeof updateShoppingListSchema>;
+export type CreateShoppingItemInput = z.infer<typeof createShoppingItemSchema>;
+export type UpdateShoppingItemInput = z.infer<typeof updateShoppingItemSchema>;
+export type ConvertToTaskInput = z.infer<typeof convertToTaskSchema>;
+export type ListIdParam = z.infer<typeof listIdParamSchema>;
+export type ItemIdParam = z.infer<typeof itemIdParamSchema>;
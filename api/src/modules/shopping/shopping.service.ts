@@ -0,0 +1,345 @@
+import { Prisma, PrismaClient, ShoppingItem } from "@prisma/client";
+import {
+  NotFoundError,
+  UnprocessableEntityError,
+} from "../../shared/errors/AppError";
+import { MAX_CHECKLIST_ITEMS, TaskService } from "../tasks/tasks.service";
+import { recordTaskEvent } from "../tasks/tasks.events";
+import { RealtimeService } from "../realtime/realtime.service";
+import { NotificationDispatcher } from "../notifications/notifications.dispatcher";
+import {
+  ConvertToTaskInput,
+  CreateShoppingItemInput,
+  CreateShoppingListInput,
+  UpdateShoppingItemInput,
+  UpdateShoppingListInput,
+} from "./shopping.schema";
+
+const prisma = new PrismaClient();
+
+const memberSelect = {
+  select: {
+    id: true,
+    displayName: true,
+  },
+} as const;
+
+const itemInclude = {
+  addedBy: memberSelect,
+  boughtBy: memberSelect,
+} satisfies Prisma.ShoppingItemInclude;
+
+// Items still to buy first, then bought ones, oldest first within each group
+const itemOrderBy = [
+  { boughtAt: { sort: "asc", nulls: "first" } },
+  { createdAt: "asc" },
+] satisfies Prisma.ShoppingItemOrderByWithRelationInput[];
+
+export class ShoppingService {
+  /**
+   * Get shopping lists of a house with item counts
+   */
+  static async getHouseLists(houseId: string) {
+    const lists = await prisma.shoppingList.findMany({
+      where: { houseId },
+      include: {
+        items: {
+          select: { boughtAt: true },
+        },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    // Counts of items to buy and items bought for the list overview
+    return lists.map(({ items, ...list }) => ({
+      ...list,
+      itemCount: items.length,
+      boughtCount: items.filter((item) => item.boughtAt).length,
+    }));
+  }
+
+  /**
+   * Create a new shopping list
+   */
+  static async createList(houseId: string, data: CreateShoppingListInput) {
+    const list = await prisma.shoppingList.create({
+      data: {
+        name: data.name,
+        houseId,
+      },
+      include: {
+        items: { include: itemInclude, orderBy: itemOrderBy },
+      },
+    });
+
+    return list;
+  }
+
+  /**
+   * Get a shopping list with its items
+   */
+  static async getListById(listId: string, houseId: string) {
+    const list = await prisma.shoppingList.findFirst({
+      where: {
+        id: listId,
+        houseId,
+      },
+      include: {
+        items: { include: itemInclude, orderBy: itemOrderBy },
+      },
+    });
+
+    if (!list) {
+      throw new NotFoundError("Shopping list not found");
+    }
+
+    return list;
+  }
+
+  /**
+   * Rename a shopping list
+   */
+  static async updateList(
+    listId: string,
+    houseId: string,
+    data: UpdateShoppingListInput
+  ) {
+    await this.getListById(listId, houseId);
+
+    await prisma.shoppingList.update({
+      where: { id: listId },
+      data: { name: data.name },
+    });
+
+    return await this.getListById(listId, houseId);
+  }
+
+  /**
+   * Delete a shopping list and its items
+   */
+  static async deleteList(listId: string, houseId: string) {
+    await this.getListById(listId, houseId);
+
+    await prisma.shoppingList.delete({
+      where: { id: listId },
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Add an item to a shopping list
+   */
+  static async addItem(
+    listId: string,
+    houseId: string,
+    currentMemberId: string,
+    data: CreateShoppingItemInput
+  ) {
+    await this.getListById(listId, houseId);
+
+    const item = await prisma.shoppingItem.create({
+      data: {
+        name: data.name,
+        quantity: data.quantity,
+        unit: data.unit,
+        store: data.store,
+        listId,
+        addedById: currentMemberId,
+      },
+      include: itemInclude,
+    });
+
+    return item;
+  }
+
+  /**
+   * Edit an item and/or mark it bought or not bought
+   */
+  static async updateItem(
+    listId: string,
+    houseId: string,
+    itemId: string,
+    currentMemberId: string,
+    data: UpdateShoppingItemInput
+  ) {
+    const item = await this.getItem(listId, houseId, itemId);
+
+    const isToggled =
+      data.bought !== undefined && data.bought !== (item.boughtAt !== null);
+
+    const updatedItem = await prisma.shoppingItem.update({
+      where: { id: itemId },
+      data: {
+        ...(data.name && { name: data.name }),
+        ...(data.quantity !== undefined && { quantity: data.quantity }),
+        ...(data.unit !== undefined && { unit: data.unit }),
+        ...(data.store !== undefined && { store: data.store }),
+        ...(isToggled && {
+          boughtAt: data.bought ? new Date() : null,
+          boughtById: data.bought ? currentMemberId : null,
+        }),
+      },
+      include: itemInclude,
+    });
+
+    return updatedItem;
+  }
+
+  /**
+   * Delete an item from a shopping list
+   */
+  static async deleteItem(listId: string, houseId: string, itemId: string) {
+    await this.getItem(listId, houseId, itemId);
+
+    await prisma.shoppingItem.delete({
+      where: { id: itemId },
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Remove every bought item from a shopping list
+   */
+  static async clearBoughtItems(listId: string, houseId: string) {
+    await this.getListById(listId, houseId);
+
+    const { count } = await prisma.shoppingItem.deleteMany({
+      where: {
+        listId,
+        boughtAt: { not: null },
+      },
+    });
+
+    return { deletedCount: count };
+  }
+
+  /**
+   * Create a task for the shopping run, with the items still to buy as checklist
+   * The task completes itself once every item is checked
+   */
+  static async convertToTask(
+    listId: string,
+    houseId: string,
+    currentMemberId: string,
+    data: ConvertToTaskInput
+  ) {
+    const list = await this.getListById(listId, houseId);
+    const itemsToBuy = list.items.filter((item) => !item.boughtAt);
+
+    if (itemsToBuy.length === 0) {
+      throw new UnprocessableEntityError(
+        "Shopping list has no items left to buy"
+      );
+    }
+
+    if (itemsToBuy.length > MAX_CHECKLIST_ITEMS) {
+      throw new UnprocessableEntityError(
+        `A checklist can have at most ${MAX_CHECKLIST_ITEMS} items`
+      );
+    }
+
+    const assigneeId = data.assigneeId ?? currentMemberId;
+
+    const assignee = await prisma.houseMember.findFirst({
+      where: {
+        id: assigneeId,
+        houseId,
+      },
+    });
+
+    if (!assignee) {
+      throw new UnprocessableEntityError(
+        "Assignee is not a member of this house"
+      );
+    }
+
+    if (data.categoryId) {
+      const category = await prisma.category.findUnique({
+        where: { id: data.categoryId },
+      });
+
+      if (!category || category.houseId !== houseId) {
+        throw new UnprocessableEntityError(
+          "Category does not belong to this house"
+        );
+      }
+    }
+
+    const task = await prisma.$transaction(async (tx) => {
+      const created = await tx.task.create({
+        data: {
+          title: data.title ?? list.name,
+          dueDate: data.dueDate ? new Date(data.dueDate) : null,
+          houseId,
+          categoryId: data.categoryId,
+          createdById: currentMemberId,
+          autoCompleteChecklist: true,
+          assignees: {
+            create: { houseMemberId: assigneeId },
+          },
+          checklistItems: {
+            create: itemsToBuy.map((item, position) => ({
+              text: this.formatItemLabel(item),
+              position,
+            })),
+          },
+        },
+      });
+
+      await recordTaskEvent(tx, {
+        type: "CREATED",
+        task: created,
+        actorId: currentMemberId,
+      });
+
+      return created;
+    });
+
+    const createdTask = await TaskService.getTaskById(task.id, houseId);
+    RealtimeService.publish(houseId, "task.created", currentMemberId, {
+      task: createdTask,
+    });
+    NotificationDispatcher.taskAssigned(
+      createdTask,
+      [assigneeId],
+      currentMemberId
+    );
+
+    return createdTask;
+  }
+
+  /**
+   * Helper method to get an item of a list in a house
+   */
+  private static async getItem(
+    listId: string,
+    houseId: string,
+    itemId: string
+  ) {
+    const item = await prisma.shoppingItem.findFirst({
+      where: {
+        id: itemId,
+        listId,
+        list: { houseId },
+      },
+    });
+
+    if (!item) {
+      throw new NotFoundError("Shopping item not found");
+    }
+
+    return item;
+  }
+
+  /**
+   * Helper method to describe an item as a checklist line ("2 kg Apples (Market)")
+   */
+  private static formatItemLabel(item: ShoppingItem): string {
+    const amount = [item.quantity, item.unit].filter(Boolean).join(" ");
+    const label = amount ? `${amount} ${item.name}` : item.name;
+
+    return item.store ? `${label} (${item.store})` : label;
+  }
+}
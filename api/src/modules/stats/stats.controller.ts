@@ -0,0 +1,24 @@
+import { Response } from "express";
+import { AuthRequest } from "../../shared/middleware/auth.middleware";
+import { validateData } from "../../shared/utils/validation";
+import { StatsService } from "./stats.service";
+import { statsQuerySchema } from "./stats.schema";
+import { houseIdParamSchema } from "../houses/houses.schema";
+
+export class StatsController {
+  /**
+   * GET /api/v1/houses/:id/stats
+   * Get who completed what over a date range, open load and weekly trends
+   */
+  static async getHouseStats(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = validateData(houseIdParamSchema, req.params);
+    const query = validateData(statsQuerySchema, req.query);
+
+    const stats = await StatsService.getHouseStats(houseId, query);
+
+    res.json({
+      success: true,
+      data: { stats },
+    });
+  }
+}
@@ -0,0 +1,18 @@
+import { Router } from "express";
+import { StatsController } from "./stats.controller";
+import { authenticate } from "../../shared/middleware/auth.middleware";
+import { requireHouseMember } from "../../shared/middleware/houses.middleware";
+
+const router = Router();
+
+// All stats routes require authentication and house membership
+// House ID is passed as :id parameter
+
+router.get(
+  "/:id/stats",
+  authenticate,
+  requireHouseMember,
+  StatsController.getHouseStats
+);
+
+export default router;
@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Range used when the client does not pick one
+const DEFAULT_RANGE_DAYS = 28;
+
+// Longest range a statistics request may cover
+const MAX_RANGE_DAYS = 366;
+
+// Date validation: ISO date (2025-10-31) or date-time
+const statsDateSchema = z
+  .union([
+    z.string().date(),
+    z.string().datetime({ offset: true, message: "Invalid date format" }),
+  ])
+  .transform((val) => new Date(val));
+
+// Schema for house statistics query parameters
+// to defaults to now, from to 4 weeks before to
+export const statsQuerySchema = z
+  .object({
+    from: statsDateSchema.optional(),
+    to: statsDateSchema.optional(),
+  })
+  .transform((data) => {
+    const to = data.to ?? new Date();
+    const from =
+      data.from ?? new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+    return { from, to };
+  })
+  .refine((data) => data.from < data.to, {
+    message: "from must be before to",
+    path: ["from"],
+  })
+  .refine(
+    (data) =>
+      data.to.getTime() - data.from.getTime() <= MAX_RANGE_DAYS * DAY_MS,
+    { message: `Range cannot exceed ${MAX_RANGE_DAYS} days`, path: ["from"] }
+  );
+
+// Type exports for TypeScript
+export type StatsQueryInput = z.infer<typeof statsQuerySchema>;
@@ -0,0 +1,266 @@
+import { PrismaClient } from "@prisma/client";
+import { StatsQueryInput } from "./stats.schema";
+
+const prisma = new PrismaClient();
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface CompletionCounts {
+  completed: number;
+  onTime: number;
+  late: number;
+}
+
+interface MemberCategoryRow extends CompletionCounts {
+  memberId: string;
+  categoryId: string | null;
+}
+
+interface CategoryRow extends CompletionCounts {
+  categoryId: string | null;
+  unassigned: number;
+  open: number;
+  overdue: number;
+}
+
+interface OpenLoadRow {
+  memberId: string;
+  open: number;
+  overdue: number;
+}
+
+interface WeekRow {
+  weekStart: Date;
+  memberId?: string;
+  completed: number;
+}
+
+/**
+ * Percentage with one decimal, null when there is nothing to compare to
+ */
+const toPercentage = (value: number, total: number): number | null =>
+  total > 0 ? Math.round((value / total) * 1000) / 10 : null;
+
+/**
+ * Adds up completion counts and derives the on-time figures
+ * Tasks completed without a due date are neither on time nor late
+ */
+const summarize = (rows: CompletionCounts[]) => {
+  const completed = rows.reduce((sum, row) => sum + row.completed, 0);
+  const onTime = rows.reduce((sum, row) => sum + row.onTime, 0);
+  const late = rows.reduce((sum, row) => sum + row.late, 0);
+
+  return {
+    completed,
+    onTime,
+    late,
+    noDueDate: completed - onTime - late,
+    onTimeRate: toPercentage(onTime, onTime + late),
+  };
+};
+
+/**
+ * Monday 00:00 UTC of the week of a date (same as date_trunc('week', ...))
+ */
+const getWeekStart = (date: Date): Date => {
+  const weekStart = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+  const daysSinceMonday = (weekStart.getUTCDay() + 6) % 7;
+  weekStart.setUTCDate(weekStart.getUTCDate() - daysSinceMonday);
+
+  return weekStart;
+};
+
+export class StatsService {
+  /**
+   * Get completion statistics of a house over a date range
+   * Completed tasks count for each of their assignees; open load is the
+   * current one, whatever the range
+   */
+  static async getHouseStats(houseId: string, query: StatsQueryInput) {
+    const { from, to } = query;
+    const now = new Date();
+
+    const [
+      members,
+      categories,
+      memberCategoryRows,
+      categoryRows,
+      openLoadRows,
+      weekRows,
+      memberWeekRows,
+    ] = await Promise.all([
+      prisma.houseMember.findMany({
+        where: { houseId },
+        select: { id: true, displayName: true },
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.category.findMany({
+        where: { houseId },
+        select: { id: true, name: true, color: true },
+        orderBy: { name: "asc" },
+      }),
+      // Completions per assignee and category
+      prisma.$queryRaw<MemberCategoryRow[]>`
+        SELECT
+          ta."houseMemberId" AS "memberId",
+          t."categoryId" AS "categoryId",
+          COUNT(*)::int AS "completed",
+          COUNT(*) FILTER (WHERE t."completedAt" <= t."dueDate")::int AS "onTime",
+          COUNT(*) FILTER (WHERE t."completedAt" > t."dueDate")::int AS "late"
+        FROM "public"."tasks" t
+        JOIN "public"."task_assignees" ta ON ta."taskId" = t."id"
+        WHERE t."houseId" = ${houseId}
+          AND t."status" = 'COMPLETED'
+          AND t."completedAt" >= ${from}
+          AND t."completedAt" < ${to}
+        GROUP BY ta."houseMemberId", t."categoryId"
+      `,
+      // Completions and open tasks per category, each task counted once
+      prisma.$queryRaw<CategoryRow[]>`
+        SELECT
+          t."categoryId" AS "categoryId",
+          COUNT(*) FILTER (WHERE t."status" = 'COMPLETED')::int AS "completed",
+          COUNT(*) FILTER (
+            WHERE t."status" = 'COMPLETED' AND t."completedAt" <= t."dueDate"
+          )::int AS "onTime",
+          COUNT(*) FILTER (
+            WHERE t."status" = 'COMPLETED' AND t."completedAt" > t."dueDate"
+          )::int AS "late",
+          COUNT(*) FILTER (
+            WHERE t."status" = 'COMPLETED' AND NOT EXISTS (
+              SELECT 1 FROM "public"."task_assignees" ta
+              WHERE ta."taskId" = t."id"
+            )
+          )::int AS "unassigned",
+          COUNT(*) FILTER (WHERE t."status" = 'PENDING')::int AS "open",
+          COUNT(*) FILTER (
+            WHERE t."status" = 'PENDING' AND t."dueDate" < ${now}
+          )::int AS "overdue"
+        FROM "public"."tasks" t
+        WHERE t."houseId" = ${houseId}
+          AND (
+            t."status" = 'PENDING'
+            OR (
+              t."status" = 'COMPLETED'
+              AND t."completedAt" >= ${from}
+              AND t."completedAt" < ${to}
+            )
+          )
+        GROUP BY t."categoryId"
+      `,
+      // Current open load per assignee
+      prisma.$queryRaw<OpenLoadRow[]>`
+        SELECT
+          ta."houseMemberId" AS "memberId",
+          COUNT(*)::int AS "open",
+          COUNT(*) FILTER (WHERE t."dueDate" < ${now})::int AS "overdue"
+        FROM "public"."tasks" t
+        JOIN "public"."task_assignees" ta ON ta."taskId" = t."id"
+        WHERE t."houseId" = ${houseId}
+          AND t."status" = 'PENDING'
+        GROUP BY ta."houseMemberId"
+      `,
+      // Completions per week (UTC weeks starting on Monday)
+      prisma.$queryRaw<WeekRow[]>`
+        SELECT
+          date_trunc('week', t."completedAt") AS "weekStart",
+          COUNT(*)::int AS "completed"
+        FROM "public"."tasks" t
+        WHERE t."houseId" = ${houseId}
+          AND t."status" = 'COMPLETED'
+          AND t."completedAt" >= ${from}
+          AND t."completedAt" < ${to}
+        GROUP BY 1
+      `,
+      // Completions per week and assignee
+      prisma.$queryRaw<WeekRow[]>`
+        SELECT
+          date_trunc('week', t."completedAt") AS "weekStart",
+          ta."houseMemberId" AS "memberId",
+          COUNT(*)::int AS "completed"
+        FROM "public"."tasks" t
+        JOIN "public"."task_assignees" ta ON ta."taskId" = t."id"
+        WHERE t."houseId" = ${houseId}
+          AND t."status" = 'COMPLETED'
+          AND t."completedAt" >= ${from}
+          AND t."completedAt" < ${to}
+        GROUP BY 1, 2
+      `,
+    ]);
+
+    const totals = summarize(categoryRows);
+
+    // Completions credited to members, the base of their share
+    const creditedTotal = memberCategoryRows.reduce(
+      (sum, row) => sum + row.completed,
+      0
+    );
+
+    const memberStats = members.map((member) => {
+      const rows = memberCategoryRows.filter((r) => r.memberId === member.id);
+      const load = openLoadRows.find((r) => r.memberId === member.id);
+      const completion = summarize(rows);
+
+      return {
+        member,
+        ...completion,
+        share: toPercentage(completion.completed, creditedTotal),
+        open: load?.open ?? 0,
+        overdue: load?.overdue ?? 0,
+        categories: rows.map((row) => ({
+          categoryId: row.categoryId,
+          completed: row.completed,
+        })),
+      };
+    });
+
+    const categoryStats = categoryRows.map((row) => ({
+      category: categories.find((c) => c.id === row.categoryId) ?? null,
+      ...summarize([row]),
+      open: row.open,
+      overdue: row.overdue,
+      members: memberCategoryRows
+        .filter((r) => r.categoryId === row.categoryId)
+        .map((r) => ({ memberId: r.memberId, completed: r.completed })),
+    }));
+
+    // Every week of the range, including the ones without completions
+    const weekly = [];
+
+    for (
+      let weekStart = getWeekStart(from);
+      weekStart < to;
+      weekStart = new Date(weekStart.getTime() + WEEK_MS)
+    ) {
+      const isSameWeek = (row: WeekRow) =>
+        row.weekStart.getTime() === weekStart.getTime();
+
+      weekly.push({
+        weekStart,
+        completed: weekRows.find(isSameWeek)?.completed ?? 0,
+        members: members.map((member) => ({
+          memberId: member.id,
+          completed:
+            memberWeekRows.find(
+              (row) => isSameWeek(row) && row.memberId === member.id
+            )?.completed ?? 0,
+        })),
+      });
+    }
+
+    return {
+      range: { from, to },
+      totals: {
+        ...totals,
+        unassigned: categoryRows.reduce((sum, row) => sum + row.unassigned, 0),
+        open: categoryRows.reduce((sum, row) => sum + row.open, 0),
+        overdue: categoryRows.reduce((sum, row) => sum + row.overdue, 0),
+      },
+      members: memberStats,
+      categories: categoryStats,
+      weekly,
+    };
+  }
+}
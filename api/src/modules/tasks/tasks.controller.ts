@@ -1,13 +1,20 @@
 import { Response } from "express";
 import { AuthRequest } from "../../shared/middleware/auth.middleware";
+import { validateData } from "../../shared/utils/validation";
 import { TaskService } from "./tasks.service";
 import {
   createTaskSchema,
   updateTaskSchema,
   updateTaskStatusSchema,
   updateTaskAssigneesSchema,
+  updateTaskRotationSchema,
+  createChecklistItemSchema,
+  updateChecklistItemSchema,
+  reorderChecklistSchema,
   taskFilterSchema,
+  taskEventListSchema,
   taskIdParamSchema,
+  checklistItemIdParamSchema,
   houseIdParamSchema,
 } from "./tasks.schema";
 
@@ -18,7 +25,7 @@ export class TaskController {
    */
   static async createTask(req: AuthRequest, res: Response): Promise<void> {
     const { id: houseId } = houseIdParamSchema.parse(req.params);
-    const taskData = createTaskSchema.parse(req.body);
+    const taskData = validateData(createTaskSchema, req.body);
     const currentMemberId = req.houseMember!.id;
 
     const task = await TaskService.createTask(
@@ -39,7 +46,7 @@ export class TaskController {
    */
   static async getHouseTasks(req: AuthRequest, res: Response): Promise<void> {
     const { id: houseId } = houseIdParamSchema.parse(req.params);
-    const filters = taskFilterSchema.parse(req.query);
+    const filters = validateData(taskFilterSchema, req.query);
     const currentUserId = req.user!.id;
 
     const result = await TaskService.getHouseTasks(
@@ -77,7 +84,7 @@ export class TaskController {
   static async updateTask(req: AuthRequest, res: Response): Promise<void> {
     const { id: houseId } = houseIdParamSchema.parse(req.params);
     const { taskId } = taskIdParamSchema.parse(req.params);
-    const updateData = updateTaskSchema.parse(req.body);
+    const updateData = validateData(updateTaskSchema, req.body);
     const currentMemberId = req.houseMember!.id;
 
     const task = await TaskService.updateTask(
@@ -139,6 +146,195 @@ export class TaskController {
     });
   }
 
+  /**
+   * GET /api/v1/houses/:id/tasks/:taskId/rotation
+   * Get task assignee rotation
+   */
+  static async getTaskRotation(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = houseIdParamSchema.parse(req.params);
+    const { taskId } = taskIdParamSchema.parse(req.params);
+
+    const rotation = await TaskService.getTaskRotation(taskId, houseId);
+
+    res.json({
+      success: true,
+      data: { rotation },
+    });
+  }
+
+  /**
+   * PUT /api/v1/houses/:id/tasks/:taskId/rotation
+   * Set or reorder task assignee rotation
+   */
+  static async updateTaskRotation(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = houseIdParamSchema.parse(req.params);
+    const { taskId } = taskIdParamSchema.parse(req.params);
+    const rotationData = validateData(updateTaskRotationSchema, req.body);
+    const currentMemberId = req.houseMember!.id;
+
+    const rotation = await TaskService.updateTaskRotation(
+      taskId,
+      houseId,
+      currentMemberId,
+      rotationData
+    );
+
+    res.json({
+      success: true,
+      data: { rotation },
+    });
+  }
+
+  /**
+   * DELETE /api/v1/houses/:id/tasks/:taskId/rotation
+   * Remove task assignee rotation
+   */
+  static async deleteTaskRotation(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = houseIdParamSchema.parse(req.params);
+    const { taskId } = taskIdParamSchema.parse(req.params);
+    const currentMemberId = req.houseMember!.id;
+
+    await TaskService.deleteTaskRotation(taskId, houseId, currentMemberId);
+
+    res.json({
+      success: true,
+      data: { message: "Rotation removed successfully" },
+    });
+  }
+
+  /**
+   * POST /api/v1/houses/:id/tasks/:taskId/checklist
+   * Add a checklist item
+   */
+  static async addChecklistItem(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = houseIdParamSchema.parse(req.params);
+    const { taskId } = taskIdParamSchema.parse(req.params);
+    const itemData = validateData(createChecklistItemSchema, req.body);
+    const currentMemberId = req.houseMember!.id;
+
+    const task = await TaskService.addChecklistItem(
+      taskId,
+      houseId,
+      currentMemberId,
+      itemData
+    );
+
+    res.status(201).json({
+      success: true,
+      data: { task },
+    });
+  }
+
+  /**
+   * PUT /api/v1/houses/:id/tasks/:taskId/checklist/order
+   * Reorder checklist items
+   */
+  static async reorderChecklist(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = houseIdParamSchema.parse(req.params);
+    const { taskId } = taskIdParamSchema.parse(req.params);
+    const orderData = validateData(reorderChecklistSchema, req.body);
+    const currentMemberId = req.houseMember!.id;
+
+    const task = await TaskService.reorderChecklist(
+      taskId,
+      houseId,
+      currentMemberId,
+      orderData
+    );
+
+    res.json({
+      success: true,
+      data: { task },
+    });
+  }
+
+  /**
+   * PUT /api/v1/houses/:id/tasks/:taskId/checklist/:itemId
+   * Edit or check/uncheck a checklist item
+   */
+  static async updateChecklistItem(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const { id: houseId } = houseIdParamSchema.parse(req.params);
+    const { taskId } = taskIdParamSchema.parse(req.params);
+    const { itemId } = checklistItemIdParamSchema.parse(req.params);
+    const itemData = validateData(updateChecklistItemSchema, req.body);
+    const currentMemberId = req.houseMember!.id;
+
+    const task = await TaskService.updateChecklistItem(
+      taskId,
+      houseId,
+      itemId,
+      currentMemberId,
+      itemData
+    );
+
+    res.json({
+      success: true,
+      data: { task },
+    });
+  }
+
+  /**
+   * DELETE /api/v1/houses/:id/tasks/:taskId/checklist/:itemId
+   * Delete a checklist item
+   */
+  static async deleteChecklistItem(
+    req: AuthRequest,
+    res: Response
+  ): Promise<void> {
+    const { id: houseId } = houseIdParamSchema.parse(req.params);
+    const { taskId } = taskIdParamSchema.parse(req.params);
+    const { itemId } = checklistItemIdParamSchema.parse(req.params);
+    const currentMemberId = req.houseMember!.id;
+
+    const task = await TaskService.deleteChecklistItem(
+      taskId,
+      houseId,
+      itemId,
+      currentMemberId
+    );
+
+    res.json({
+      success: true,
+      data: { task },
+    });
+  }
+
+  /**
+   * GET /api/v1/houses/:id/tasks/:taskId/history
+   * Get task change history
+   */
+  static async getTaskHistory(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = houseIdParamSchema.parse(req.params);
+    const { taskId } = taskIdParamSchema.parse(req.params);
+    const filters = validateData(taskEventListSchema, req.query);
+
+    const result = await TaskService.getTaskHistory(taskId, houseId, filters);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  }
+
+  /**
+   * GET /api/v1/houses/:id/activity
+   * Get task activity of the whole house
+   */
+  static async getHouseActivity(req: AuthRequest, res: Response): Promise<void> {
+    const { id: houseId } = houseIdParamSchema.parse(req.params);
+    const filters = validateData(taskEventListSchema, req.query);
+
+    const result = await TaskService.getHouseActivity(houseId, filters);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  }
+
   /**
    * DELETE /api/v1/houses/:id/tasks/:taskId
    * Delete a task
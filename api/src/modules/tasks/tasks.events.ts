@@ -0,0 +1,87 @@
+import { Prisma, TaskEventType } from "@prisma/client";
+
+// Task fields tracked in UPDATED events
+const TRACKED_FIELDS = [
+  "title",
+  "description",
+  "priority",
+  "dueDate",
+  "categoryId",
+  "recurringPattern",
+  "autoCompleteChecklist",
+  "points",
+] as const;
+
+type TrackedTask = Pick<
+  Prisma.TaskGetPayload<object>,
+  (typeof TRACKED_FIELDS)[number]
+>;
+
+export type TaskEventChanges = Record<
+  string,
+  { from: Prisma.JsonValue; to: Prisma.JsonValue }
+>;
+
+interface TaskEventInput {
+  type: TaskEventType;
+  task: { id: string; houseId: string; title: string };
+  actorId: string | null;
+  changes?: TaskEventChanges;
+}
+
+/**
+ * Appends an event to the task log
+ * Call it with the transaction client of the change so both commit together
+ */
+export const recordTaskEvent = async (
+  tx: Prisma.TransactionClient,
+  { type, task, actorId, changes }: TaskEventInput
+): Promise<void> => {
+  await tx.taskEvent.create({
+    data: {
+      type,
+      taskTitle: task.title,
+      changes,
+      houseId: task.houseId,
+      // DELETED events are written before the delete, which then nulls taskId
+      taskId: task.id,
+      actorId,
+    },
+  });
+};
+
+/**
+ * Lists tracked fields whose value differs between two versions of a task
+ *
+ * @returns Changed fields with before/after values, empty if nothing changed
+ */
+export const diffTaskFields = (
+  before: TrackedTask,
+  after: TrackedTask
+): TaskEventChanges => {
+  const changes: TaskEventChanges = {};
+
+  for (const field of TRACKED_FIELDS) {
+    const from = toJsonValue(before[field]);
+    const to = toJsonValue(after[field]);
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Converts a task field value to what is stored in the event (dates as ISO strings)
+ */
+export const toJsonValue = (value: unknown): Prisma.JsonValue => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return value as Prisma.JsonValue;
+};
@@ -0,0 +1,84 @@
+import { RecurringPattern } from "./tasks.schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Safety net for patterns that would otherwise loop forever
+const MAX_STEPS = 1000;
+
+/**
+ * Computes the due date of the next occurrence of a recurring task
+ * Missed occurrences are skipped so the next one is always in the future
+ *
+ * @param pattern - Validated recurring pattern
+ * @param from - Due date (or completion date) of the current occurrence
+ * @param now - Reference date, defaults to current time
+ * @returns Next due date, or null if the recurrence has ended
+ */
+export const getNextOccurrenceDate = (
+  pattern: RecurringPattern,
+  from: Date,
+  now: Date = new Date()
+): Date | null => {
+  let next = getNextDate(pattern, from);
+
+  for (let steps = 0; next <= now && steps < MAX_STEPS; steps++) {
+    next = getNextDate(pattern, next);
+  }
+
+  if (pattern.endDate && next > new Date(pattern.endDate)) {
+    return null;
+  }
+
+  return next;
+};
+
+/**
+ * Returns the first date strictly after `date` matching the pattern
+ * Time of day is preserved, calendar math is done in UTC
+ */
+const getNextDate = (pattern: RecurringPattern, date: Date): Date => {
+  switch (pattern.frequency) {
+    case "DAILY":
+      return new Date(date.getTime() + DAY_MS);
+
+    case "INTERVAL":
+      return new Date(date.getTime() + pattern.intervalDays * DAY_MS);
+
+    case "WEEKLY": {
+      for (let offset = 1; offset <= 7; offset++) {
+        const candidate = new Date(date.getTime() + offset * DAY_MS);
+        if (pattern.daysOfWeek.includes(candidate.getUTCDay())) {
+          return candidate;
+        }
+      }
+      // Unreachable with a validated pattern (at least one weekday)
+      return new Date(date.getTime() + 7 * DAY_MS);
+    }
+
+    case "MONTHLY": {
+      const sameMonth = withDayOfMonth(date, 0, pattern.dayOfMonth);
+      return sameMonth > date
+        ? sameMonth
+        : withDayOfMonth(date, 1, pattern.dayOfMonth);
+    }
+  }
+};
+
+/**
+ * Moves a date by a number of months and sets its day,
+ * clamped to the length of the target month
+ */
+const withDayOfMonth = (
+  date: Date,
+  monthOffset: number,
+  dayOfMonth: number
+): Date => {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + monthOffset;
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+  const result = new Date(date);
+  result.setUTCDate(1);
+  result.setUTCFullYear(year, month, Math.min(dayOfMonth, daysInMonth));
+  return result;
+};
@@ -59,4 +59,70 @@ router.put(
   TaskController.updateTaskAssignees
 );
 
+// Assignee rotation routes (recurring tasks)
+router.get(
+  "/:id/tasks/:taskId/rotation",
+  authenticate,
+  requireHouseMember,
+  TaskController.getTaskRotation
+);
+
+router.put(
+  "/:id/tasks/:taskId/rotation",
+  authenticate,
+  requireHouseMember,
+  TaskController.updateTaskRotation
+);
+
+router.delete(
+  "/:id/tasks/:taskId/rotation",
+  authenticate,
+  requireHouseMember,
+  TaskController.deleteTaskRotation
+);
+
+// Activity log routes
+router.get(
+  "/:id/tasks/:taskId/history",
+  authenticate,
+  requireHouseMember,
+  TaskController.getTaskHistory
+);
+
+router.get(
+  "/:id/activity",
+  authenticate,
+  requireHouseMember,
+  TaskController.getHouseActivity
+);
+
+// Checklist routes (order route must come before :itemId)
+router.post(
+  "/:id/tasks/:taskId/checklist",
+  authenticate,
+  requireHouseMember,
+  TaskController.addChecklistItem
+);
+
+router.put(
+  "/:id/tasks/:taskId/checklist/order",
+  authenticate,
+  requireHouseMember,
+  TaskController.reorderChecklist
+);
+
+router.put(
+  "/:id/tasks/:taskId/checklist/:itemId",
+  authenticate,
+  requireHouseMember,
+  TaskController.updateChecklistItem
+);
+
+router.delete(
+  "/:id/tasks/:taskId/checklist/:itemId",
+  authenticate,
+  requireHouseMember,
+  TaskController.deleteChecklistItem
+);
+
 export default router;
\ No newline at end of file
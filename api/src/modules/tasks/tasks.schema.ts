@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { cursorParamSchema } from "../../shared/utils/pagination";
 
 // Task status enum validation
 const taskStatusSchema = z.enum(["PENDING", "COMPLETED"]);
@@ -29,12 +30,75 @@ const dueDateSchema = z
   })
   .optional();
 
+// Effort points validation: whole number from 1 to 100
+const taskPointsSchema = z
+  .number()
+  .int("Points must be a whole number")
+  .min(1, "Points must be at least 1")
+  .max(100, "Points must be at most 100");
+
 // Assignee IDs validation: array of UUIDs
 const assigneeIdsSchema = z
   .array(z.string().uuid({ message: "Invalid assignee ID" }))
   .max(10, "Cannot assign more than 10 members to a task")
   .optional();
 
+// Checklist item text validation: 1-200 chars
+const checklistItemTextSchema = z
+  .string()
+  .trim()
+  .min(1, "Checklist item text is required")
+  .max(200, "Checklist item must be at most 200 characters");
+
+// Recurrence end condition: stop after a date or after a number of occurrences
+const recurrenceEndShape = {
+  endDate: z.string().datetime({ message: "Invalid date format" }).optional(),
+  count: z
+    .number()
+    .int("Occurrence count must be a whole number")
+    .min(2, "A recurring task needs at least 2 occurrences")
+    .max(365, "A recurring task can have at most 365 occurrences")
+    .optional(),
+};
+
+// Recurring pattern validation: daily, weekly on given weekdays,
+// monthly on a given day, or every N days
+export const recurringPatternSchema = z
+  .discriminatedUnion("frequency", [
+    z.object({
+      frequency: z.literal("DAILY"),
+      ...recurrenceEndShape,
+    }),
+    z.object({
+      frequency: z.literal("WEEKLY"),
+      // 0 = Sunday ... 6 = Saturday
+      daysOfWeek: z
+        .array(z.number().int().min(0).max(6))
+        .min(1, "At least one day of the week is required")
+        .transform((days) => [...new Set(days)].sort((a, b) => a - b)),
+      ...recurrenceEndShape,
+    }),
+    z.object({
+      frequency: z.literal("MONTHLY"),
+      // Clamped to the last day for shorter months
+      dayOfMonth: z.number().int().min(1).max(31),
+      ...recurrenceEndShape,
+    }),
+    z.object({
+      frequency: z.literal("INTERVAL"),
+      intervalDays: z
+        .number()
+        .int()
+        .min(1, "Interval must be at least 1 day")
+        .max(365, "Interval must be at most 365 days"),
+      ...recurrenceEndShape,
+    }),
+  ])
+  .refine((pattern) => !(pattern.endDate && pattern.count), {
+    message: "Use either endDate or count, not both",
+    path: ["count"],
+  });
+
 // Schema for creating a new task
 export const createTaskSchema = z.object({
   title: taskTitleSchema,
@@ -43,6 +107,10 @@ export const createTaskSchema = z.object({
   dueDate: dueDateSchema,
   categoryId: z.string().uuid({ message: "Invalid category ID" }).optional(),
   assigneeIds: assigneeIdsSchema,
+  recurringPattern: recurringPatternSchema.optional(),
+  autoCompleteChecklist: z.boolean().default(false),
+  // Omitted: the category default applies
+  points: taskPointsSchema.optional(),
 });
 
 // Schema for updating a task
@@ -52,6 +120,11 @@ export const updateTaskSchema = z.object({
   priority: taskPrioritySchema.optional(),
   dueDate: dueDateSchema,
   categoryId: z.string().uuid({ message: "Invalid category ID" }).optional(),
+  // null stops the recurrence
+  recurringPattern: recurringPatternSchema.nullable().optional(),
+  autoCompleteChecklist: z.boolean().optional(),
+  // null goes back to the category default
+  points: taskPointsSchema.nullable().optional(),
 });
 
 // Schema for updating task status
@@ -64,33 +137,197 @@ export const updateTaskAssigneesSchema = z.object({
   assigneeIds: assigneeIdsSchema.default([]),
 });
 
-// Schema for task filtering/query parameters
-export const taskFilterSchema = z.object({
-  status: taskStatusSchema.optional(),
-  priority: taskPrioritySchema.optional(),
-  assignedToMe: z.string().transform(val => val === "true").optional(),
-  createdByMe: z.string().transform(val => val === "true").optional(),
-  categoryId: z.string().uuid({ message: "Invalid category ID" }).optional(),
-  overdue: z.string().transform(val => val === "true").optional(),
-  page: z.string().transform(val => parseInt(val) || 1).optional(),
-  limit: z.string().transform(val => Math.min(parseInt(val) || 20, 100)).optional(),
+// Schema for setting/reordering a task's assignee rotation
+export const updateTaskRotationSchema = z.object({
+  strategy: z
+    .enum(["ROUND_ROBIN", "LEAST_RECENTLY_COMPLETED"])
+    .default("ROUND_ROBIN"),
+  // Ordered list of house member IDs
+  memberIds: z
+    .array(z.string().uuid({ message: "Invalid member ID" }))
+    .min(1, "A rotation needs at least one member")
+    .max(20, "A rotation can have at most 20 members")
+    .refine((ids) => new Set(ids).size === ids.length, {
+      message: "Members can only appear once in a rotation",
+    }),
+});
+
+// Schema for adding a checklist item (appended at the end)
+export const createChecklistItemSchema = z.object({
+  text: checklistItemTextSchema,
 });
 
+// Schema for editing or checking/unchecking a checklist item
+export const updateChecklistItemSchema = z
+  .object({
+    text: checklistItemTextSchema.optional(),
+    isDone: z.boolean().optional(),
+  })
+  .refine((data) => data.text !== undefined || data.isDone !== undefined, {
+    message: "At least one field is required",
+  });
+
+// Schema for reordering a checklist: every item ID of the task, in the new order
+export const reorderChecklistSchema = z.object({
+  itemIds: z
+    .array(z.string().uuid({ message: "Invalid checklist item ID" }))
+    .min(1, "At least one checklist item is required")
+    .refine((ids) => new Set(ids).size === ids.length, {
+      message: "Checklist items can only appear once",
+    }),
+});
+
+// Query parameter holding several values, either comma separated
+// (?status=PENDING,COMPLETED) or repeated (?status=PENDING&status=COMPLETED)
+const multiValueParam = <T extends z.ZodType<unknown, string>>(
+  itemSchema: T
+) =>
+  z
+    .union([z.string(), z.array(z.string())])
+    .transform((val) =>
+      [val]
+        .flat()
+        .flatMap((item) => item.split(","))
+        .map((item) => item.trim())
+        .filter(Boolean)
+    )
+    .pipe(z.array(itemSchema).max(20, "Too many values"));
+
+// Date filter validation: ISO date (2025-10-31) or date-time
+const filterDateSchema = z
+  .union([
+    z.string().date(),
+    z.string().datetime({ offset: true, message: "Invalid date format" }),
+  ])
+  .transform((val) => new Date(val));
+
+// Fields tasks can be sorted by
+export const taskSortFields = [
+  "priority",
+  "dueDate",
+  "createdAt",
+  "updatedAt",
+  "completedAt",
+  "title",
+] as const;
+
+// Sort validation: comma separated fields, "-" prefix for descending
+// (?sort=-priority,dueDate)
+const taskSortSchema = z
+  .string()
+  .transform((val) =>
+    val
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean)
+  )
+  .pipe(
+    z
+      .array(
+        z
+          .string()
+          .transform((item) => ({
+            field: item.replace(/^-/, ""),
+            order: item.startsWith("-") ? ("desc" as const) : ("asc" as const),
+          }))
+          .pipe(
+            z.object({
+              field: z.enum(taskSortFields, {
+                message: `Sort field must be one of: ${taskSortFields.join(", ")}`,
+              }),
+              order: z.enum(["asc", "desc"]),
+            })
+          )
+      )
+      .min(1, "Sort must name at least one field")
+      .max(3, "Cannot sort by more than 3 fields")
+  );
+
+// Schema for task filtering/query parameters
+export const taskFilterSchema = z
+  .object({
+    search: z
+      .string()
+      .trim()
+      .max(100, "Search must be at most 100 characters")
+      .optional(),
+    status: multiValueParam(taskStatusSchema).optional(),
+    priority: multiValueParam(taskPrioritySchema).optional(),
+    categoryId: multiValueParam(
+      z.string().uuid({ message: "Invalid category ID" })
+    ).optional(),
+    assigneeId: multiValueParam(
+      z.string().uuid({ message: "Invalid assignee ID" })
+    ).optional(),
+    unassigned: z.string().transform(val => val === "true").optional(),
+    assignedToMe: z.string().transform(val => val === "true").optional(),
+    createdByMe: z.string().transform(val => val === "true").optional(),
+    overdue: z.string().transform(val => val === "true").optional(),
+    dueBefore: filterDateSchema.optional(),
+    dueAfter: filterDateSchema.optional(),
+    completedBetween: z
+      .string()
+      .transform((val) => val.split(","))
+      .refine((parts) => parts.length === 2, {
+        message: "completedBetween must be two dates: start,end",
+      })
+      .pipe(z.tuple([filterDateSchema, filterDateSchema]))
+      .refine(([from, to]) => from <= to, {
+        message: "completedBetween must start before it ends",
+      })
+      .optional(),
+    sort: taskSortSchema.optional(),
+    cursor: cursorParamSchema.optional(),
+    page: z.string().transform(val => Math.max(parseInt(val) || 1, 1)).optional(),
+    limit: z.string().transform(val => Math.max(Math.min(parseInt(val) || 20, 100), 1)).optional(),
+  })
+  .refine(
+    (data) => !data.dueBefore || !data.dueAfter || data.dueAfter <= data.dueBefore,
+    { message: "dueAfter must be before dueBefore", path: ["dueAfter"] }
+  )
+  .refine((data) => !data.cursor || data.page === undefined, {
+    message: "Use either page or cursor",
+    path: ["cursor"],
+  });
+
+// Schema for task history / house activity query parameters
+export const taskEventListSchema = z
+  .object({
+    cursor: cursorParamSchema.optional(),
+    page: z.string().transform(val => Math.max(parseInt(val) || 1, 1)).optional(),
+    limit: z.string().transform(val => Math.max(Math.min(parseInt(val) || 50, 100), 1)).optional(),
+  })
+  .refine((data) => !data.cursor || data.page === undefined, {
+    message: "Use either page or cursor",
+    path: ["cursor"],
+  });
+
 // Schema for task ID parameter validation
 export const taskIdParamSchema = z.object({
   taskId: z.string().uuid({ message: "Invalid task ID format" }),
 });
 
+// Schema for checklist item ID parameter validation
+export const checklistItemIdParamSchema = z.object({
+  itemId: z.string().uuid({ message: "Invalid checklist item ID format" }),
+});
+
 // Schema for house ID parameter validation
 export const houseIdParamSchema = z.object({
   id: z.string().uuid({ message: "Invalid house ID format" }),
 });
 
 // Type exports for TypeScript
+export type RecurringPattern = z.infer<typeof recurringPatternSchema>;
 export type CreateTaskInput = z.infer<typeof createTaskSchema>;
 export type UpdateTaskInput = z.infer<typeof updateTaskSchema>;
 export type UpdateTaskStatusInput = z.infer<typeof updateTaskStatusSchema>;
 export type UpdateTaskAssigneesInput = z.infer<typeof updateTaskAssigneesSchema>;
+export type UpdateTaskRotationInput = z.infer<typeof updateTaskRotationSchema>;
+export type CreateChecklistItemInput = z.infer<typeof createChecklistItemSchema>;
+export type UpdateChecklistItemInput = z.infer<typeof updateChecklistItemSchema>;
+export type ReorderChecklistInput = z.infer<typeof reorderChecklistSchema>;
 export type TaskFilterInput = z.infer<typeof taskFilterSchema>;
+export type TaskEventListInput = z.infer<typeof taskEventListSchema>;
 export type TaskIdParam = z.infer<typeof taskIdParamSchema>;
 export type HouseIdParam = z.infer<typeof houseIdParamSchema>;
\ No newline at end of file
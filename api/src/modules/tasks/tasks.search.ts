@@ -0,0 +1,61 @@
+import { TaskPriority } from "@prisma/client";
+import { SortField } from "../../shared/utils/pagination";
+import { TaskFilterInput } from "./tasks.schema";
+
+// Sort fields that may be empty, their tasks are listed last
+const NULLABLE_SORT_FIELDS = new Set(["dueDate", "completedAt"]);
+
+const DATE_SORT_FIELDS = new Set([
+  "dueDate",
+  "createdAt",
+  "updatedAt",
+  "completedAt",
+]);
+
+// Order used when the client does not pick one
+const DEFAULT_SORT: NonNullable<TaskFilterInput["sort"]> = [
+  { field: "priority", order: "desc" },
+  { field: "dueDate", order: "asc" },
+  { field: "createdAt", order: "desc" },
+];
+
+/**
+ * Turns user input into a prefix tsquery: every word must match the start
+ * of a word of the task ("clean kit" finds "Clean the kitchen")
+ *
+ * @returns The tsquery, or null when the input has no searchable word
+ */
+export const toPrefixTsQuery = (search: string): string | null => {
+  const terms = search
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return terms.map((term) => `${term}:*`).join(" & ");
+};
+
+/**
+ * Builds the task order from the sort query parameter
+ * The id comes last so the order is total: pages and cursors stay stable
+ * when sort values are equal
+ */
+export const getTaskSortFields = (
+  sort: TaskFilterInput["sort"]
+): SortField[] => {
+  const fields = (sort ?? DEFAULT_SORT).map(
+    ({ field, order }): SortField => ({
+      field,
+      order,
+      nullable: NULLABLE_SORT_FIELDS.has(field),
+      enumValues:
+        field === "priority" ? Object.values(TaskPriority) : undefined,
+      isDate: DATE_SORT_FIELDS.has(field),
+    })
+  );
+
+  return [...fields, { field: "id", order: "asc" }];
+};
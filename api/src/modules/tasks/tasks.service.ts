@@ -1,19 +1,132 @@
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
 import {
   NotFoundError,
   UnprocessableEntityError,
   ForbiddenError,
 } from "../../shared/errors/AppError";
+import {
+  getCursorWhere,
+  SortField,
+  toCursorPage,
+  toOrderBy,
+} from "../../shared/utils/pagination";
 import {
   CreateTaskInput,
   UpdateTaskInput,
   UpdateTaskStatusInput,
   UpdateTaskAssigneesInput,
+  UpdateTaskRotationInput,
+  CreateChecklistItemInput,
+  UpdateChecklistItemInput,
+  ReorderChecklistInput,
   TaskFilterInput,
+  TaskEventListInput,
+  recurringPatternSchema,
 } from "./tasks.schema";
+import { getNextOccurrenceDate } from "./tasks.recurrence";
+import { diffTaskFields, recordTaskEvent, toJsonValue } from "./tasks.events";
+import { getTaskSortFields, toPrefixTsQuery } from "./tasks.search";
+import { RealtimeService } from "../realtime/realtime.service";
+import { NotificationDispatcher } from "../notifications/notifications.dispatcher";
+import { awardTaskPoints, reverseTaskPoints } from "../points/points.awards";
 
 const prisma = new PrismaClient();
 
+// Relations returned with every task payload
+const taskInclude = {
+  assignees: {
+    include: {
+      houseMember: {
+        include: {
+          user: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+        },
+      },
+    },
+  },
+  category: true,
+  createdBy: {
+    include: {
+      user: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+        },
+      },
+    },
+  },
+  checklistItems: {
+    include: {
+      checkedBy: {
+        select: {
+          id: true,
+          displayName: true,
+        },
+      },
+    },
+    orderBy: {
+      position: "asc",
+    },
+  },
+} satisfies Prisma.TaskInclude;
+
+// Actor shown with every task event
+const taskEventInclude = {
+  actor: {
+    select: {
+      id: true,
+      displayName: true,
+    },
+  },
+} satisfies Prisma.TaskEventInclude;
+
+// Upper bound to keep checklists (and task payloads) reasonable
+export const MAX_CHECKLIST_ITEMS = 100;
+
+/**
+ * Adds the checklist progress summary ("3/7") to a task payload
+ */
+const withChecklistProgress = <
+  T extends { checklistItems: { isDone: boolean }[] },
+>(
+  task: T
+) => {
+  const total = task.checklistItems.length;
+  const done = task.checklistItems.filter((item) => item.isDone).length;
+
+  return {
+    ...task,
+    checklistProgress: { done, total, summary: `${done}/${total}` },
+  };
+};
+
+// Rotation members in rotation order
+const rotationInclude = {
+  members: {
+    include: {
+      houseMember: {
+        select: {
+          id: true,
+          displayName: true,
+        },
+      },
+    },
+    orderBy: {
+      position: "asc",
+    },
+  },
+} satisfies Prisma.TaskRotationInclude;
+
+type RotationWithMembers = Prisma.TaskRotationGetPayload<{
+  include: typeof rotationInclude;
+}>;
+
 export class TaskService {
   /**
    * Create a new task in a house
@@ -63,36 +176,17 @@ export class TaskService {
           houseId,
           categoryId: data.categoryId,
           createdById,
+          recurringPattern: data.recurringPattern,
+          autoCompleteChecklist: data.autoCompleteChecklist,
+          points: data.points,
         },
-        include: {
-          assignees: {
-            include: {
-              houseMember: {
-                include: {
-                  user: {
-                    select: {
-                      id: true,
-                      firstName: true,
-                      lastName: true,
-                    },
-                  },
-                },
-              },
-            },
-          },
-          category: true,
-          createdBy: {
-            include: {
-              user: {
-                select: {
-                  id: true,
-                  firstName: true,
-                  lastName: true,
-                },
-              },
-            },
-          },
-        },
+        include: taskInclude,
+      });
+
+      await recordTaskEvent(tx, {
+        type: "CREATED",
+        task,
+        actorId: createdById,
       });
 
       // Create task assignments if assignees provided
@@ -105,44 +199,24 @@ export class TaskService {
         });
 
         // Fetch updated task with assignees
-        return await tx.task.findUnique({
+        return await tx.task.findUniqueOrThrow({
           where: { id: task.id },
-          include: {
-            assignees: {
-              include: {
-                houseMember: {
-                  include: {
-                    user: {
-                      select: {
-                        id: true,
-                        firstName: true,
-                        lastName: true,
-                      },
-                    },
-                  },
-                },
-              },
-            },
-            category: true,
-            createdBy: {
-              include: {
-                user: {
-                  select: {
-                    id: true,
-                    firstName: true,
-                    lastName: true,
-                  },
-                },
-              },
-            },
-          },
+          include: taskInclude,
         });
       }
 
       return task;
     });
 
-    return result;
+    const task = withChecklistProgress(result);
+    RealtimeService.publish(houseId, "task.created", createdById, { task });
+    NotificationDispatcher.taskAssigned(
+      task,
+      data.assigneeIds ?? [],
+      createdById
+    );
+
+    return task;
   }
 
   /**
@@ -154,12 +228,20 @@ export class TaskService {
     filters: TaskFilterInput
   ) {
     const {
+      search,
       status,
       priority,
+      categoryId,
+      assigneeId,
+      unassigned,
       assignedToMe,
       createdByMe,
-      categoryId,
       overdue,
+      dueBefore,
+      dueAfter,
+      completedBetween,
+      sort,
+      cursor,
       page = 1,
       limit = 20,
     } = filters;
@@ -178,81 +260,104 @@ export class TaskService {
       throw new ForbiddenError("You are not a member of this house");
     }
 
-    const where: any = {
-      houseId,
-      ...(status && { status }),
-      ...(priority && { priority }),
-      ...(categoryId && { categoryId }),
-      ...(createdByMe && { createdById: currentMember.id }),
-      ...(overdue && {
-        dueDate: {
-          lt: new Date(),
-        },
-        status: "PENDING",
-      }),
-    };
+    const conditions: Prisma.TaskWhereInput[] = [
+      { houseId },
+      status ? { status: { in: status } } : {},
+      priority ? { priority: { in: priority } } : {},
+      categoryId ? { categoryId: { in: categoryId } } : {},
+      createdByMe ? { createdById: currentMember.id } : {},
+      dueBefore || dueAfter
+        ? { dueDate: { lt: dueBefore, gte: dueAfter } }
+        : {},
+      completedBetween
+        ? {
+            completedAt: {
+              gte: completedBetween[0],
+              lte: completedBetween[1],
+            },
+          }
+        : {},
+      overdue ? { dueDate: { lt: new Date() }, status: "PENDING" } : {},
+      assignedToMe
+        ? { assignees: { some: { houseMemberId: currentMember.id } } }
+        : {},
+    ];
 
-    // Handle assignedToMe filter
-    if (assignedToMe) {
-      where.assignees = {
-        some: {
-          houseMemberId: currentMember.id,
-        },
-      };
+    // Listed assignees and unassigned tasks add up ("mine or nobody's")
+    if (assigneeId || unassigned) {
+      conditions.push({
+        OR: [
+          ...(assigneeId
+            ? [{ assignees: { some: { houseMemberId: { in: assigneeId } } } }]
+            : []),
+          ...(unassigned ? [{ assignees: { none: {} } }] : []),
+        ],
+      });
     }
 
-    const skip = (page - 1) * limit;
+    const tsQuery = search ? toPrefixTsQuery(search) : null;
 
-    const [tasks, total] = await Promise.all([
+    if (tsQuery) {
+      const matchingIds = await this.findMatchingTaskIds(houseId, tsQuery);
+      conditions.push({ id: { in: matchingIds } });
+    }
+
+    const where: Prisma.TaskWhereInput = { AND: conditions };
+    const sortFields = getTaskSortFields(sort);
+
+    const findTasks = (pageWhere: Prisma.TaskWhereInput, skip: number) =>
       prisma.task.findMany({
-        where,
+        where: pageWhere,
         include: {
-          assignees: {
-            include: {
-              houseMember: {
-                include: {
-                  user: {
-                    select: {
-                      id: true,
-                      firstName: true,
-                      lastName: true,
-                    },
-                  },
-                },
-              },
-            },
-          },
-          category: true,
-          createdBy: {
-            include: {
-              user: {
-                select: {
-                  id: true,
-                  firstName: true,
-                  lastName: true,
-                },
-              },
-            },
+          ...taskInclude,
+          _count: {
+            select: { comments: true },
           },
         },
-        orderBy: [
-          { priority: "desc" },
-          { dueDate: "asc" },
-          { createdAt: "desc" },
-        ],
+        orderBy: toOrderBy<Prisma.TaskOrderByWithRelationInput>(sortFields),
         skip,
-        take: limit,
-      }),
+        // One extra task tells whether there is a next page
+        take: limit + 1,
+      });
+
+    // Cursor mode: no offset and no count, stable while tasks change
+    if (cursor) {
+      const cursorWhere = getCursorWhere<Prisma.TaskWhereInput>(
+        cursor,
+        sortFields
+      );
+      const tasks = await findTasks({ AND: [where, cursorWhere] }, 0);
+      const { items, hasMore, nextCursor } = toCursorPage(
+        tasks,
+        limit,
+        sortFields
+      );
+
+      return {
+        tasks: items.map(withChecklistProgress),
+        pagination: { limit, hasMore, nextCursor },
+      };
+    }
+
+    const [tasks, total] = await Promise.all([
+      findTasks(where, (page - 1) * limit),
       prisma.task.count({ where }),
     ]);
+    const { items, hasMore, nextCursor } = toCursorPage(
+      tasks,
+      limit,
+      sortFields
+    );
 
     return {
-      tasks,
+      tasks: items.map(withChecklistProgress),
       pagination: {
         page,
         limit,
         total,
         pages: Math.ceil(total / limit),
+        hasMore,
+        nextCursor,
       },
     };
   }
@@ -266,42 +371,14 @@ export class TaskService {
         id: taskId,
         houseId,
       },
-      include: {
-        assignees: {
-          include: {
-            houseMember: {
-              include: {
-                user: {
-                  select: {
-                    id: true,
-                    firstName: true,
-                    lastName: true,
-                  },
-                },
-              },
-            },
-          },
-        },
-        category: true,
-        createdBy: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                firstName: true,
-                lastName: true,
-              },
-            },
-          },
-        },
-      },
+      include: taskInclude,
     });
 
     if (!task) {
       throw new NotFoundError("Task not found");
     }
 
-    return task;
+    return withChecklistProgress(task);
   }
 
   /**
@@ -336,51 +413,50 @@ export class TaskService {
       }
     }
 
-    const updatedTask = await prisma.task.update({
-      where: { id: taskId },
-      data: {
-        ...(data.title && { title: data.title }),
-        ...(data.description !== undefined && {
-          description: data.description,
-        }),
-        ...(data.priority && { priority: data.priority }),
-        ...(data.dueDate !== undefined && {
-          dueDate: data.dueDate ? new Date(data.dueDate) : null,
-        }),
-        ...(data.categoryId !== undefined && { categoryId: data.categoryId }),
-      },
-      include: {
-        assignees: {
-          include: {
-            houseMember: {
-              include: {
-                user: {
-                  select: {
-                    id: true,
-                    firstName: true,
-                    lastName: true,
-                  },
-                },
-              },
-            },
-          },
-        },
-        category: true,
-        createdBy: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                firstName: true,
-                lastName: true,
-              },
-            },
-          },
+    // Update and log the changed fields together
+    const updatedTask = await prisma.$transaction(async (tx) => {
+      const updated = await tx.task.update({
+        where: { id: taskId },
+        data: {
+          ...(data.title && { title: data.title }),
+          ...(data.description !== undefined && {
+            description: data.description,
+          }),
+          ...(data.priority && { priority: data.priority }),
+          ...(data.dueDate !== undefined && {
+            dueDate: data.dueDate ? new Date(data.dueDate) : null,
+          }),
+          ...(data.categoryId !== undefined && { categoryId: data.categoryId }),
+          ...(data.recurringPattern !== undefined && {
+            recurringPattern: data.recurringPattern ?? Prisma.DbNull,
+          }),
+          ...(data.autoCompleteChecklist !== undefined && {
+            autoCompleteChecklist: data.autoCompleteChecklist,
+          }),
+          ...(data.points !== undefined && { points: data.points }),
         },
-      },
+        include: taskInclude,
+      });
+
+      const changes = diffTaskFields(task, updated);
+      if (Object.keys(changes).length > 0) {
+        await recordTaskEvent(tx, {
+          type: "UPDATED",
+          task: updated,
+          actorId: currentMemberId,
+          changes,
+        });
+      }
+
+      return updated;
     });
 
-    return updatedTask;
+    const result = withChecklistProgress(updatedTask);
+    RealtimeService.publish(houseId, "task.updated", currentMemberId, {
+      task: result,
+    });
+
+    return result;
   }
 
   /**
@@ -413,41 +489,74 @@ export class TaskService {
       updateData.completedAt = null;
     }
 
-    const updatedTask = await prisma.task.update({
-      where: { id: taskId },
-      data: updateData,
-      include: {
-        assignees: {
-          include: {
-            houseMember: {
-              include: {
-                user: {
-                  select: {
-                    id: true,
-                    firstName: true,
-                    lastName: true,
-                  },
-                },
-              },
-            },
-          },
-        },
-        category: true,
-        createdBy: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                firstName: true,
-                lastName: true,
-              },
+    // Update status and generate the next recurring occurrence together
+    const result = await prisma.$transaction(async (tx) => {
+      const updatedTask = await tx.task.update({
+        where: { id: taskId },
+        data: updateData,
+        include: taskInclude,
+      });
+
+      if (updatedTask.status !== task.status) {
+        await recordTaskEvent(tx, {
+          type: "STATUS_CHANGED",
+          task: updatedTask,
+          actorId: currentMemberId,
+          changes: {
+            status: { from: task.status, to: updatedTask.status },
+            completedAt: {
+              from: toJsonValue(task.completedAt),
+              to: toJsonValue(updatedTask.completedAt),
             },
           },
-        },
-      },
+        });
+
+        // Assignees earn the task points, re-opening takes them back
+        if (updatedTask.status === "COMPLETED") {
+          await awardTaskPoints(tx, updatedTask);
+        } else {
+          await reverseTaskPoints(tx, taskId);
+        }
+      }
+
+      const nextOccurrence =
+        data.status === "COMPLETED" && task.status !== "COMPLETED"
+          ? await this.createNextOccurrence(tx, task, currentMemberId)
+          : null;
+
+      return {
+        ...withChecklistProgress(updatedTask),
+        nextOccurrence: nextOccurrence && withChecklistProgress(nextOccurrence),
+      };
     });
 
-    return updatedTask;
+    if (result.status !== task.status) {
+      const { nextOccurrence, ...updatedTask } = result;
+
+      RealtimeService.publish(houseId, "task.status_changed", currentMemberId, {
+        task: updatedTask,
+      });
+
+      if (nextOccurrence) {
+        RealtimeService.publish(houseId, "task.created", currentMemberId, {
+          task: nextOccurrence,
+        });
+      }
+    }
+
+    if (result.status === "COMPLETED" && task.status !== "COMPLETED") {
+      NotificationDispatcher.taskCompleted(result, currentMemberId);
+
+      if (result.nextOccurrence) {
+        NotificationDispatcher.taskAssigned(
+          result.nextOccurrence,
+          result.nextOccurrence.assignees.map((a) => a.houseMemberId),
+          currentMemberId
+        );
+      }
+    }
+
+    return result;
   }
 
   /**
@@ -502,42 +611,337 @@ export class TaskService {
         });
       }
 
-      // Return updated task
-      return await tx.task.findUnique({
+      const updated = await tx.task.findUniqueOrThrow({
         where: { id: taskId },
-        include: {
+        include: taskInclude,
+      });
+
+      // Log display names too so the history stays readable after members leave
+      const toAssigneeList = (t: typeof updated) =>
+        t.assignees.map(({ houseMember }) => ({
+          id: houseMember.id,
+          displayName: houseMember.displayName,
+        }));
+
+      await recordTaskEvent(tx, {
+        type: "ASSIGNEES_CHANGED",
+        task: updated,
+        actorId: currentMemberId,
+        changes: {
           assignees: {
-            include: {
-              houseMember: {
-                include: {
-                  user: {
-                    select: {
-                      id: true,
-                      firstName: true,
-                      lastName: true,
-                    },
-                  },
-                },
-              },
-            },
+            from: toAssigneeList(task),
+            to: toAssigneeList(updated),
           },
-          category: true,
-          createdBy: {
-            include: {
-              user: {
-                select: {
-                  id: true,
-                  firstName: true,
-                  lastName: true,
-                },
-              },
+        },
+      });
+
+      // Return updated task
+      return updated;
+    });
+
+    const result = withChecklistProgress(updatedTask);
+    RealtimeService.publish(
+      houseId,
+      "task.assignees_changed",
+      currentMemberId,
+      { task: result }
+    );
+
+    const previousAssigneeIds = task.assignees.map((a) => a.houseMemberId);
+    NotificationDispatcher.taskAssigned(
+      result,
+      data.assigneeIds.filter((id) => !previousAssigneeIds.includes(id)),
+      currentMemberId
+    );
+
+    return result;
+  }
+
+  /**
+   * Get the assignee rotation of a recurring task
+   */
+  static async getTaskRotation(taskId: string, houseId: string) {
+    const task = await this.getTaskById(taskId, houseId);
+
+    const rotation = await prisma.taskRotation.findUnique({
+      where: { taskId },
+      include: rotationInclude,
+    });
+
+    if (!rotation) {
+      throw new NotFoundError("This task has no rotation");
+    }
+
+    return {
+      ...rotation,
+      nextMemberId: this.pickNextRotationMember(
+        rotation,
+        task.assignees.map((assignment) => assignment.houseMemberId),
+        new Date()
+      ),
+    };
+  }
+
+  /**
+   * Set or reorder the assignee rotation of a recurring task
+   */
+  static async updateTaskRotation(
+    taskId: string,
+    houseId: string,
+    currentMemberId: string,
+    data: UpdateTaskRotationInput
+  ) {
+    const task = await this.getTaskById(taskId, houseId);
+
+    // Check if user can update this task
+    const canUpdate = await this.canUserModifyTask(task, currentMemberId);
+    if (!canUpdate) {
+      throw new ForbiddenError(
+        "Only task creator, assignees, or house owner can update the rotation"
+      );
+    }
+
+    if (!task.recurringPattern) {
+      throw new UnprocessableEntityError(
+        "Only recurring tasks can have a rotation"
+      );
+    }
+
+    // Verify all rotation members are members of the house
+    const validMembers = await prisma.houseMember.findMany({
+      where: {
+        id: { in: data.memberIds },
+        houseId,
+      },
+    });
+
+    if (validMembers.length !== data.memberIds.length) {
+      throw new UnprocessableEntityError(
+        "Some rotation members are not members of this house"
+      );
+    }
+
+    // Replace rotation members while keeping their completion history
+    await prisma.$transaction(async (tx) => {
+      const rotation = await tx.taskRotation.upsert({
+        where: { taskId },
+        create: { taskId, strategy: data.strategy },
+        update: { strategy: data.strategy },
+      });
+
+      await tx.taskRotationMember.deleteMany({
+        where: {
+          rotationId: rotation.id,
+          houseMemberId: { notIn: data.memberIds },
+        },
+      });
+
+      for (const [position, houseMemberId] of data.memberIds.entries()) {
+        await tx.taskRotationMember.upsert({
+          where: {
+            rotationId_houseMemberId: {
+              rotationId: rotation.id,
+              houseMemberId,
             },
           },
-        },
+          create: { rotationId: rotation.id, houseMemberId, position },
+          update: { position },
+        });
+      }
+    });
+
+    return this.getTaskRotation(taskId, houseId);
+  }
+
+  /**
+   * Remove the assignee rotation of a task
+   */
+  static async deleteTaskRotation(
+    taskId: string,
+    houseId: string,
+    currentMemberId: string
+  ) {
+    const task = await this.getTaskById(taskId, houseId);
+
+    // Check if user can update this task
+    const canUpdate = await this.canUserModifyTask(task, currentMemberId);
+    if (!canUpdate) {
+      throw new ForbiddenError(
+        "Only task creator, assignees, or house owner can update the rotation"
+      );
+    }
+
+    const { count } = await prisma.taskRotation.deleteMany({
+      where: { taskId },
+    });
+
+    if (count === 0) {
+      throw new NotFoundError("This task has no rotation");
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Add an item at the end of a task checklist
+   */
+  static async addChecklistItem(
+    taskId: string,
+    houseId: string,
+    currentMemberId: string,
+    data: CreateChecklistItemInput
+  ) {
+    const task = await this.getTaskForChecklist(
+      taskId,
+      houseId,
+      currentMemberId
+    );
+
+    if (task.checklistItems.length >= MAX_CHECKLIST_ITEMS) {
+      throw new UnprocessableEntityError(
+        `A checklist can have at most ${MAX_CHECKLIST_ITEMS} items`
+      );
+    }
+
+    const lastPosition = task.checklistItems.at(-1)?.position ?? -1;
+
+    await prisma.taskChecklistItem.create({
+      data: {
+        text: data.text,
+        position: lastPosition + 1,
+        taskId,
+      },
+    });
+
+    return await this.publishChecklistChange(taskId, houseId, currentMemberId);
+  }
+
+  /**
+   * Edit and/or check a checklist item
+   * Checking the last open item completes the task when autoCompleteChecklist is on
+   */
+  static async updateChecklistItem(
+    taskId: string,
+    houseId: string,
+    itemId: string,
+    currentMemberId: string,
+    data: UpdateChecklistItemInput
+  ) {
+    const task = await this.getTaskForChecklist(
+      taskId,
+      houseId,
+      currentMemberId
+    );
+    const item = this.findChecklistItem(task, itemId);
+
+    const isToggled = data.isDone !== undefined && data.isDone !== item.isDone;
+
+    await prisma.taskChecklistItem.update({
+      where: { id: itemId },
+      data: {
+        ...(data.text && { text: data.text }),
+        ...(isToggled && {
+          isDone: data.isDone,
+          checkedAt: data.isDone ? new Date() : null,
+          checkedById: data.isDone ? currentMemberId : null,
+        }),
+      },
+    });
+
+    if (isToggled && data.isDone && task.autoCompleteChecklist) {
+      const openItems = await prisma.taskChecklistItem.count({
+        where: { taskId, isDone: false },
       });
+
+      if (openItems === 0 && task.status !== "COMPLETED") {
+        return await this.updateTaskStatus(taskId, houseId, currentMemberId, {
+          status: "COMPLETED",
+        });
+      }
+    }
+
+    return await this.publishChecklistChange(taskId, houseId, currentMemberId);
+  }
+
+  /**
+   * Reorder a task checklist (all item IDs in the new order)
+   */
+  static async reorderChecklist(
+    taskId: string,
+    houseId: string,
+    currentMemberId: string,
+    data: ReorderChecklistInput
+  ) {
+    const task = await this.getTaskForChecklist(
+      taskId,
+      houseId,
+      currentMemberId
+    );
+
+    const currentIds = new Set(task.checklistItems.map((item) => item.id));
+    const isSameSet =
+      data.itemIds.length === currentIds.size &&
+      data.itemIds.every((id) => currentIds.has(id));
+
+    if (!isSameSet) {
+      throw new UnprocessableEntityError(
+        "Item IDs must list every checklist item of the task exactly once"
+      );
+    }
+
+    await prisma.$transaction(
+      data.itemIds.map((id, position) =>
+        prisma.taskChecklistItem.update({
+          where: { id },
+          data: { position },
+        })
+      )
+    );
+
+    return await this.publishChecklistChange(taskId, houseId, currentMemberId);
+  }
+
+  /**
+   * Delete a checklist item
+   */
+  static async deleteChecklistItem(
+    taskId: string,
+    houseId: string,
+    itemId: string,
+    currentMemberId: string
+  ) {
+    const task = await this.getTaskForChecklist(
+      taskId,
+      houseId,
+      currentMemberId
+    );
+    this.findChecklistItem(task, itemId);
+
+    await prisma.taskChecklistItem.delete({
+      where: { id: itemId },
     });
 
-    return updatedTask;
+    return await this.publishChecklistChange(taskId, houseId, currentMemberId);
+  }
+
+  /**
+   * Get the change history of a task, oldest first
+   */
+  static async getTaskHistory(
+    taskId: string,
+    houseId: string,
+    filters: TaskEventListInput
+  ) {
+    await this.getTaskById(taskId, houseId);
+
+    return await this.getEventPage({ taskId }, "asc", filters);
+  }
+
+  /**
+   * Get task events of the whole house, newest first
+   */
+  static async getHouseActivity(houseId: string, filters: TaskEventListInput) {
+    return await this.getEventPage({ houseId }, "desc", filters);
   }
 
   /**
@@ -564,13 +968,304 @@ export class TaskService {
       );
     }
 
-    await prisma.task.delete({
-      where: { id: taskId },
+    // The event outlives the task (its taskId is nulled on delete)
+    await prisma.$transaction(async (tx) => {
+      await recordTaskEvent(tx, {
+        type: "DELETED",
+        task,
+        actorId: currentMemberId,
+      });
+
+      await tx.task.delete({
+        where: { id: taskId },
+      });
+    });
+
+    RealtimeService.publish(houseId, "task.deleted", currentMemberId, {
+      taskId,
     });
 
     return { success: true };
   }
 
+  /**
+   * Helper method to create the next occurrence of a recurring task
+   * Copies title, description, priority, category, assignees and
+   * checklist items (unchecked)
+   *
+   * @returns The created task, or null if the task is not recurring,
+   * the recurrence has ended, or the next occurrence already exists
+   */
+  private static async createNextOccurrence(
+    tx: Prisma.TransactionClient,
+    task: Prisma.TaskGetPayload<{ include: typeof taskInclude }>,
+    actorId: string
+  ) {
+    const parsed = recurringPatternSchema.safeParse(task.recurringPattern);
+    if (!parsed.success) {
+      return null;
+    }
+    const pattern = parsed.data;
+
+    if (pattern.count && task.occurrenceNumber >= pattern.count) {
+      return null;
+    }
+
+    // Re-completing a reopened task must not create a second occurrence
+    const existingNext = await tx.task.findUnique({
+      where: { previousOccurrenceId: task.id },
+    });
+    if (existingNext) {
+      return null;
+    }
+
+    const dueDate = getNextOccurrenceDate(
+      pattern,
+      task.dueDate ?? task.completedAt ?? new Date()
+    );
+    if (!dueDate) {
+      return null;
+    }
+
+    // A rotation assigns the next occurrence to a single member in line;
+    // members removed from the house are already gone from the rotation
+    const now = new Date();
+    const currentAssigneeIds = task.assignees.map(
+      (assignment) => assignment.houseMemberId
+    );
+    const rotation = await tx.taskRotation.findUnique({
+      where: { taskId: task.id },
+      include: rotationInclude,
+    });
+    const nextMemberId = rotation
+      ? this.pickNextRotationMember(rotation, currentAssigneeIds, now)
+      : null;
+    const assigneeIds = nextMemberId ? [nextMemberId] : currentAssigneeIds;
+
+    const nextTask = await tx.task.create({
+      data: {
+        title: task.title,
+        description: task.description,
+        priority: task.priority,
+        dueDate,
+        houseId: task.houseId,
+        categoryId: task.categoryId,
+        createdById: task.createdById,
+        recurringPattern: pattern,
+        occurrenceNumber: task.occurrenceNumber + 1,
+        previousOccurrenceId: task.id,
+        autoCompleteChecklist: task.autoCompleteChecklist,
+        points: task.points,
+        assignees: {
+          create: assigneeIds.map((houseMemberId) => ({ houseMemberId })),
+        },
+        checklistItems: {
+          create: task.checklistItems.map(({ text, position }) => ({
+            text,
+            position,
+          })),
+        },
+      },
+      include: taskInclude,
+    });
+
+    await recordTaskEvent(tx, {
+      type: "CREATED",
+      task: nextTask,
+      actorId,
+    });
+
+    // Record who completed this occurrence and move the rotation forward
+    if (rotation) {
+      await tx.taskRotationMember.updateMany({
+        where: {
+          rotationId: rotation.id,
+          houseMemberId: { in: currentAssigneeIds },
+        },
+        data: { lastCompletedAt: now },
+      });
+
+      await tx.taskRotation.update({
+        where: { id: rotation.id },
+        data: { taskId: nextTask.id },
+      });
+    }
+
+    return nextTask;
+  }
+
+  /**
+   * Helper method to pick the member in line for the next occurrence
+   * Current assignees are treated as having just completed the task
+   *
+   * @returns House member ID, or null if the rotation has no members left
+   */
+  private static pickNextRotationMember(
+    rotation: RotationWithMembers,
+    currentAssigneeIds: string[],
+    completedAt: Date
+  ): string | null {
+    const { members } = rotation;
+
+    if (rotation.strategy === "LEAST_RECENTLY_COMPLETED") {
+      const lastCompleted = (member: (typeof members)[number]) =>
+        currentAssigneeIds.includes(member.houseMemberId)
+          ? completedAt.getTime()
+          : (member.lastCompletedAt?.getTime() ?? 0);
+
+      // Members are sorted by position, so the sort keeps order on ties
+      const [next] = [...members].sort(
+        (a, b) => lastCompleted(a) - lastCompleted(b)
+      );
+      return next?.houseMemberId ?? null;
+    }
+
+    // Round robin: member right after the last current assignee in order
+    const lastIndex = members.reduce(
+      (last, member, index) =>
+        currentAssigneeIds.includes(member.houseMemberId) ? index : last,
+      -1
+    );
+    const next = members[(lastIndex + 1) % members.length];
+    return next?.houseMemberId ?? null;
+  }
+
+  /**
+   * Helper method to find the tasks of a house matching a full-text search
+   * on title and description (uses the tasks_search_idx index)
+   */
+  private static async findMatchingTaskIds(
+    houseId: string,
+    tsQuery: string
+  ): Promise<string[]> {
+    const rows = await prisma.$queryRaw<{ id: string }[]>`
+      SELECT "id" FROM "public"."tasks"
+      WHERE "houseId" = ${houseId}
+        AND to_tsvector('simple', "title" || ' ' || coalesce("description", ''))
+          @@ to_tsquery('simple', ${tsQuery})
+    `;
+
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Helper method to get one page of task events, by page number or cursor
+   */
+  private static async getEventPage(
+    where: Prisma.TaskEventWhereInput,
+    order: Prisma.SortOrder,
+    filters: TaskEventListInput
+  ) {
+    const { cursor, page = 1, limit = 50 } = filters;
+
+    const sortFields: SortField[] = [
+      { field: "createdAt", order, isDate: true },
+      { field: "id", order },
+    ];
+
+    const findEvents = (pageWhere: Prisma.TaskEventWhereInput, skip: number) =>
+      prisma.taskEvent.findMany({
+        where: pageWhere,
+        include: taskEventInclude,
+        orderBy: toOrderBy<Prisma.TaskEventOrderByWithRelationInput>(
+          sortFields
+        ),
+        skip,
+        // One extra event tells whether there is a next page
+        take: limit + 1,
+      });
+
+    if (cursor) {
+      const cursorWhere = getCursorWhere<Prisma.TaskEventWhereInput>(
+        cursor,
+        sortFields
+      );
+      const events = await findEvents({ AND: [where, cursorWhere] }, 0);
+      const { items, hasMore, nextCursor } = toCursorPage(
+        events,
+        limit,
+        sortFields
+      );
+
+      return {
+        events: items,
+        pagination: { limit, hasMore, nextCursor },
+      };
+    }
+
+    const [events, total] = await Promise.all([
+      findEvents(where, (page - 1) * limit),
+      prisma.taskEvent.count({ where }),
+    ]);
+    const { items, hasMore, nextCursor } = toCursorPage(
+      events,
+      limit,
+      sortFields
+    );
+
+    return {
+      events: items,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+        hasMore,
+        nextCursor,
+      },
+    };
+  }
+
+  /**
+   * Helper method to get a task whose checklist the user can modify
+   */
+  private static async getTaskForChecklist(
+    taskId: string,
+    houseId: string,
+    currentMemberId: string
+  ) {
+    const task = await this.getTaskById(taskId, houseId);
+
+    const canUpdate = await this.canUserModifyTask(task, currentMemberId);
+    if (!canUpdate) {
+      throw new ForbiddenError(
+        "Only task creator, assignees, or house owner can update the checklist"
+      );
+    }
+
+    return task;
+  }
+
+  /**
+   * Helper method to reload a task after a checklist change and broadcast it
+   */
+  private static async publishChecklistChange(
+    taskId: string,
+    houseId: string,
+    currentMemberId: string
+  ) {
+    const task = await this.getTaskById(taskId, houseId);
+    RealtimeService.publish(houseId, "task.updated", currentMemberId, { task });
+
+    return task;
+  }
+
+  /**
+   * Helper method to find a checklist item of a task
+   */
+  private static findChecklistItem(
+    task: Prisma.TaskGetPayload<{ include: typeof taskInclude }>,
+    itemId: string
+  ) {
+    const item = task.checklistItems.find((i) => i.id === itemId);
+
+    if (!item) {
+      throw new NotFoundError("Checklist item not found");
+    }
+
+    return item;
+  }
+
   /**
    * Helper method to check if user can modify a task
    */
@@ -1,4 +1,5 @@
 import app from "./app";
+import { startReminderScheduler } from "./modules/reminders/reminders.scheduler";
 
 const PORT = process.env.PORT || 3000;
 const HOST = process.env.HOST || "localhost";
@@ -6,4 +7,6 @@ const HOST = process.env.HOST || "localhost";
 app.listen(PORT, () => {
   console.log(`🚀 Server running on http://${HOST}:${PORT}`);
   console.log(`📍 Health check: http://${HOST}:${PORT}/api/v1/health`);
+
+  startReminderScheduler();
 });
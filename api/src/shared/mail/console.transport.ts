@@ -0,0 +1,12 @@
+import { MailMessage, MailTransport } from "./mailer";
+
+/**
+ * Development transport: prints emails to the console
+ */
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(
+      `📧 Email to ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import { MailMessage, MailTransport } from "./mailer";
+
+/**
+ * Development/test transport: writes each email as a JSON file
+ * Files are named "<timestamp>-<uuid>.json" so they sort by send time
+ */
+export class FileTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    const fileName = `${Date.now()}-${randomUUID()}.json`;
+    await writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
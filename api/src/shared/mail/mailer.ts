@@ -0,0 +1,62 @@
+import { ConsoleTransport } from "./console.transport";
+import { FileTransport } from "./file.transport";
+
+/**
+ * Email message sent through a mail transport
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Mail transport interface
+ * Implement this to deliver emails through a real provider (SMTP, API, ...)
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+let transport: MailTransport | null = null;
+
+/**
+ * Creates the transport configured with MAIL_TRANSPORT
+ * - "console" (default): prints emails to stdout
+ * - "file": writes emails as JSON files to MAIL_FILE_DIR
+ */
+const createTransport = (): MailTransport => {
+  switch (process.env.MAIL_TRANSPORT) {
+    case "file":
+      return new FileTransport(process.env.MAIL_FILE_DIR || ".mail");
+    case "console":
+    case undefined:
+      return new ConsoleTransport();
+    default:
+      throw new Error(
+        `Unknown MAIL_TRANSPORT "${process.env.MAIL_TRANSPORT}"`
+      );
+  }
+};
+
+/**
+ * Replaces the mail transport (e.g. with an in-memory one in tests)
+ *
+ * @param newTransport - Transport to use, or null to go back to the configured one
+ */
+export const setMailTransport = (newTransport: MailTransport | null): void => {
+  transport = newTransport;
+};
+
+/**
+ * Sends an email through the current transport
+ *
+ * @param message - Email to send
+ */
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  if (!transport) {
+    transport = createTransport();
+  }
+
+  await transport.send(message);
+};
@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from "express";
 import { verifyToken } from "../utils/jwt";
-import { getUserById } from "../../modules/auth/auth.service";
+import {
+  assertActiveSession,
+  getUserById,
+} from "../../modules/auth/auth.service";
 import { UnauthorizedError } from "../errors/AppError";
 
 /**
@@ -14,13 +17,14 @@ export interface AuthRequest extends Request {
     lastName: string;
     avatar: string | null;
   };
+  sessionId?: string;
 }
 
 /**
  * Authentication middleware
- * Verifies JWT token and attaches user to request object
+ * Verifies JWT token and session, then attaches user to request object
  *
- * @throws UnauthorizedError if token is missing, invalid, or user not found
+ * @throws UnauthorizedError if token is missing, invalid, or session revoked
  */
 export const authenticate = async (
   req: AuthRequest,
@@ -52,11 +56,15 @@ export const authenticate = async (
     // Verify token and extract payload
     const payload = verifyToken(token); // Throws UnauthorizedError if invalid/expired
 
+    // Check session hasn't been logged out or revoked
+    await assertActiveSession(payload.userId, payload.sessionId);
+
     // Fetch user from database
     const user = await getUserById(payload.userId); // Throws NotFoundError if user doesn't exist
 
     // Attach user to request object
     req.user = user;
+    req.sessionId = payload.sessionId;
 
     next();
   } catch (error) {
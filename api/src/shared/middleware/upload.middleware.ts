@@ -0,0 +1,60 @@
+import { Request, Response, NextFunction } from "express";
+import multer from "multer";
+import { ValidationError } from "../errors/AppError";
+
+// Accepted image uploads: JPEG, PNG, WebP up to 5 MB
+const IMAGE_MIME_TYPES = ["image/jpeg", "image/png", "image/webp"];
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_IMAGE_SIZE,
+    files: 1,
+  },
+  fileFilter: (req, file, callback) => {
+    if (!IMAGE_MIME_TYPES.includes(file.mimetype)) {
+      return callback(
+        new ValidationError("Unsupported image type", {
+          [file.fieldname]: "Image must be a JPEG, PNG or WebP file",
+        })
+      );
+    }
+    callback(null, true);
+  },
+});
+
+/**
+ * Middleware factory to accept a single multipart image upload
+ * The file is kept in memory and attached to req.file
+ *
+ * @param fieldName - Multipart field holding the image
+ * @throws ValidationError if the file is missing, too large or not an image type
+ */
+export const uploadImage = (fieldName: string) => {
+  const handler = imageUpload.single(fieldName);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    handler(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        const message =
+          error.code === "LIMIT_FILE_SIZE"
+            ? "Image must be at most 5 MB"
+            : error.message;
+        return next(
+          new ValidationError("Invalid upload", { [fieldName]: message })
+        );
+      }
+
+      if (!error && !req.file) {
+        return next(
+          new ValidationError("Invalid upload", {
+            [fieldName]: "Image file is required",
+          })
+        );
+      }
+
+      next(error);
+    });
+  };
+};
@@ -0,0 +1,74 @@
+import { PushMessage, PushProvider, PushResult } from "./push";
+
+const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+
+// Expo accepts at most 100 messages per request
+const MAX_BATCH_SIZE = 100;
+
+interface ExpoPushTicket {
+  status: "ok" | "error";
+  message?: string;
+  details?: { error?: string };
+}
+
+/**
+ * Sends notifications through the Expo push service
+ * Delivery receipts are not polled, only errors reported when sending
+ */
+export class ExpoPushProvider implements PushProvider {
+  constructor(private readonly accessToken?: string) {}
+
+  async send(messages: PushMessage[]): Promise<PushResult[]> {
+    const results: PushResult[] = [];
+
+    for (let i = 0; i < messages.length; i += MAX_BATCH_SIZE) {
+      const batch = messages.slice(i, i + MAX_BATCH_SIZE);
+      results.push(...(await this.sendBatch(batch)));
+    }
+
+    return results;
+  }
+
+  /**
+   * Helper method to send up to MAX_BATCH_SIZE messages in one request
+   */
+  private async sendBatch(messages: PushMessage[]): Promise<PushResult[]> {
+    const response = await fetch(EXPO_PUSH_URL, {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/json",
+        ...(this.accessToken && {
+          Authorization: `Bearer ${this.accessToken}`,
+        }),
+      },
+      body: JSON.stringify(
+        messages.map((message) => ({ ...message, sound: "default" }))
+      ),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Expo push request failed (${response.status})`);
+    }
+
+    const { data: tickets } = (await response.json()) as {
+      data: ExpoPushTicket[];
+    };
+
+    return messages.map((message, index) => {
+      const ticket = tickets[index];
+
+      if (ticket?.status === "ok") {
+        return { token: message.to, ok: true };
+      }
+
+      const error = ticket?.details?.error ?? ticket?.message ?? "Unknown error";
+      return {
+        token: message.to,
+        ok: false,
+        invalidToken: error === "DeviceNotRegistered",
+        error,
+      };
+    });
+  }
+}
@@ -0,0 +1,33 @@
+import { PushMessage, PushProvider, PushResult } from "./push";
+
+/**
+ * Test provider: records messages instead of sending them
+ * Tokens added to invalidTokens are reported as unregistered devices
+ */
+export class MemoryPushProvider implements PushProvider {
+  readonly sent: PushMessage[] = [];
+  readonly invalidTokens = new Set<string>();
+
+  async send(messages: PushMessage[]): Promise<PushResult[]> {
+    return messages.map((message) => {
+      if (this.invalidTokens.has(message.to)) {
+        return {
+          token: message.to,
+          ok: false,
+          invalidToken: true,
+          error: "DeviceNotRegistered",
+        };
+      }
+
+      this.sent.push(message);
+      return { token: message.to, ok: true };
+    });
+  }
+
+  /**
+   * Forgets recorded messages
+   */
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
@@ -0,0 +1,79 @@
+import { ExpoPushProvider } from "./expo.provider";
+import { MemoryPushProvider } from "./memory.provider";
+
+/**
+ * Push notification sent to one device
+ */
+export interface PushMessage {
+  to: string; // Device push token
+  title: string;
+  body: string;
+  data?: Record<string, unknown>; // Passed to the app when the notification is opened
+}
+
+/**
+ * Outcome of a push message, in the order the messages were sent
+ * invalidToken is set when the device is gone and its token should be deleted
+ */
+export interface PushResult {
+  token: string;
+  ok: boolean;
+  invalidToken?: boolean;
+  error?: string;
+}
+
+/**
+ * Push provider interface
+ * Implement this to deliver notifications through another service (FCM, APNs, ...)
+ */
+export interface PushProvider {
+  send(messages: PushMessage[]): Promise<PushResult[]>;
+}
+
+let provider: PushProvider | null = null;
+
+/**
+ * Creates the provider configured with PUSH_PROVIDER
+ * - "expo" (default): Expo push service, EXPO_ACCESS_TOKEN if push security is on
+ * - "memory": keeps messages in memory, nothing leaves the server
+ */
+const createProvider = (): PushProvider => {
+  switch (process.env.PUSH_PROVIDER) {
+    case "expo":
+    case undefined:
+      return new ExpoPushProvider(process.env.EXPO_ACCESS_TOKEN);
+    case "memory":
+      return new MemoryPushProvider();
+    default:
+      throw new Error(`Unknown PUSH_PROVIDER "${process.env.PUSH_PROVIDER}"`);
+  }
+};
+
+/**
+ * Replaces the push provider (e.g. with a MemoryPushProvider in tests)
+ *
+ * @param newProvider - Provider to use, or null to go back to the configured one
+ */
+export const setPushProvider = (newProvider: PushProvider | null): void => {
+  provider = newProvider;
+};
+
+/**
+ * Sends push messages through the current provider
+ *
+ * @param messages - Messages to send
+ * @returns One result per message
+ */
+export const sendPush = async (
+  messages: PushMessage[]
+): Promise<PushResult[]> => {
+  if (messages.length === 0) {
+    return [];
+  }
+
+  if (!provider) {
+    provider = createProvider();
+  }
+
+  return await provider.send(messages);
+};
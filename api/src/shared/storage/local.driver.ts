@@ -0,0 +1,54 @@
+import { mkdir, unlink, writeFile } from "fs/promises";
+import path from "path";
+import { StorageDriver } from "./storage";
+
+/**
+ * Stores files on the local disk
+ * Files are served statically by the API (see app.ts)
+ */
+export class LocalDiskDriver implements StorageDriver {
+  constructor(
+    private readonly directory: string,
+    private readonly baseUrl: string
+  ) {}
+
+  async put(key: string, data: Buffer): Promise<string> {
+    const filePath = this.resolve(key);
+
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+
+    return `${this.baseUrl}/${key}`;
+  }
+
+  async delete(url: string): Promise<void> {
+    if (!url.startsWith(`${this.baseUrl}/`)) {
+      return;
+    }
+
+    const key = url.slice(this.baseUrl.length + 1);
+
+    try {
+      await unlink(this.resolve(key));
+    } catch (error) {
+      // Already gone is fine
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Resolves a key inside the storage directory (rejects path traversal)
+   */
+  private resolve(key: string): string {
+    const root = path.resolve(this.directory);
+    const filePath = path.resolve(root, key);
+
+    if (!filePath.startsWith(`${root}${path.sep}`)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+
+    return filePath;
+  }
+}
@@ -0,0 +1,62 @@
+import { LocalDiskDriver } from "./local.driver";
+
+/**
+ * Storage driver interface for uploaded files
+ * Implement this to store files elsewhere (S3, GCS, ...)
+ */
+export interface StorageDriver {
+  /**
+   * Stores a file and returns its public URL
+   */
+  put(key: string, data: Buffer, contentType: string): Promise<string>;
+
+  /**
+   * Deletes a file by its public URL (URLs the driver doesn't own are ignored)
+   */
+  delete(url: string): Promise<void>;
+}
+
+// Directory and URL prefix used by the local disk driver
+export const LOCAL_UPLOAD_DIR = process.env.UPLOAD_DIR || "uploads";
+export const LOCAL_UPLOAD_PATH = "/uploads";
+
+let driver: StorageDriver | null = null;
+
+/**
+ * Creates the driver configured with STORAGE_DRIVER
+ * - "local" (default): files on disk, served by the API under /uploads
+ */
+const createDriver = (): StorageDriver => {
+  switch (process.env.STORAGE_DRIVER) {
+    case "local":
+    case undefined:
+      return new LocalDiskDriver(
+        LOCAL_UPLOAD_DIR,
+        `${process.env.PUBLIC_URL || ""}${LOCAL_UPLOAD_PATH}`
+      );
+    default:
+      throw new Error(
+        `Unknown STORAGE_DRIVER "${process.env.STORAGE_DRIVER}"`
+      );
+  }
+};
+
+/**
+ * Replaces the storage driver (e.g. with an in-memory one in tests)
+ *
+ * @param newDriver - Driver to use, or null to go back to the configured one
+ */
+export const setStorageDriver = (newDriver: StorageDriver | null): void => {
+  driver = newDriver;
+};
+
+/**
+ * Gets the current storage driver
+ */
+export const getStorage = (): StorageDriver => {
+  if (!driver) {
+    driver = createDriver();
+  }
+
+  return driver;
+};
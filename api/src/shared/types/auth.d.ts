@@ -1,6 +1,6 @@
 /**
  * Auth service response for login/register
- * Contains user data and JWT access token
+ * Contains user data, JWT access token and refresh token
  */
 export interface AuthResponse {
   user: {
@@ -11,6 +11,28 @@ export interface AuthResponse {
     avatar: string | null;
   };
   token: string;
+  refreshToken: string;
+}
+
+/**
+ * Auth service response for token refresh
+ * The previous refresh token is no longer valid
+ */
+export interface TokenPairResponse {
+  token: string;
+  refreshToken: string;
+}
+
+/**
+ * Session response (active login on a device)
+ */
+export interface SessionResponse {
+  id: string;
+  deviceLabel: string | null;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  current: boolean;
 }
 
 /**
@@ -23,3 +45,21 @@ export interface UserResponse {
   lastName: string;
   avatar: string | null;
 }
+
+
+/**
+ * Profile update response
+ * pendingEmail is set while a new email awaits verification
+ */
+export interface ProfileUpdateResponse {
+  user: UserResponse;
+  pendingEmail: string | null;
+}
+
+/**
+ * Avatar upload response
+ */
+export interface AvatarResponse {
+  user: UserResponse;
+  thumbnailUrl: string;
+}
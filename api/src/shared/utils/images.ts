@@ -0,0 +1,26 @@
+import sharp from "sharp";
+import { ValidationError } from "../errors/AppError";
+
+/**
+ * Resizes an uploaded image to a square WebP image
+ * EXIF orientation is applied and metadata is stripped
+ *
+ * @param data - Raw uploaded image
+ * @param size - Width and height in pixels
+ * @returns WebP image buffer
+ * @throws ValidationError if the data is not a readable image
+ */
+export const resizeSquareImage = async (
+  data: Buffer,
+  size: number
+): Promise<Buffer> => {
+  try {
+    return await sharp(data)
+      .rotate()
+      .resize(size, size, { fit: "cover" })
+      .webp({ quality: 85 })
+      .toBuffer();
+  } catch {
+    throw new ValidationError("Uploaded file is not a valid image");
+  }
+};
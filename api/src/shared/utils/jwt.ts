@@ -8,17 +8,19 @@ import { UnauthorizedError } from "../errors/AppError";
 export interface JwtPayload {
   userId: string; // UUID from users table
   email: string; // For convenience in middleware
+  sessionId: string; // UUID from sessions table, checked on every request
 }
 
 /**
- * Generates a JWT access token for authenticated user
+ * Generates a short-lived JWT access token for authenticated user
+ * Clients renew it with their refresh token (POST /auth/refresh)
  *
  * @param payload - User data to encode in token
  * @returns Signed JWT token string
  */
 export const generateToken = (payload: JwtPayload): string => {
   const secret = process.env.JWT_SECRET;
-  const expiresIn = process.env.JWT_EXPIRES_IN || "7d";
+  const expiresIn = process.env.JWT_EXPIRES_IN || "15m";
 
   if (!secret) {
     throw new Error("JWT_SECRET is not defined in environment variables");
@@ -0,0 +1,193 @@
+import { z } from "zod";
+import { ValidationError } from "../errors/AppError";
+
+/**
+ * Field of a list order, used to build and read cursors
+ * The last field must be unique (usually the id) so the order is total
+ */
+export interface SortField {
+  field: string;
+  order: "asc" | "desc";
+  nullable?: boolean; // Null values are sorted last
+  enumValues?: readonly string[]; // Enum fields: values in database order
+  isDate?: boolean;
+}
+
+/**
+ * One page of a list read with a cursor
+ */
+export interface CursorPage<T> {
+  items: T[];
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+// Query parameter validation for cursors (content is checked when decoded)
+export const cursorParamSchema = z
+  .string()
+  .min(1, "Invalid cursor")
+  .max(1024, "Invalid cursor");
+
+// Describes an order, cursors only work with the order they were created for
+const getSortKey = (fields: SortField[]): string =>
+  fields
+    .map(({ field, order }) => (order === "desc" ? "-" : "") + field)
+    .join(",");
+
+/**
+ * Builds the Prisma orderBy matching sort fields
+ */
+export const toOrderBy = <T>(fields: SortField[]): T[] =>
+  fields.map(({ field, order, nullable }) => ({
+    [field]: nullable ? { sort: order, nulls: "last" } : order,
+  })) as T[];
+
+/**
+ * Creates the opaque cursor pointing after an item
+ * It holds the sort values of the item, not its position, so rows added or
+ * removed before it do not shift the next page
+ */
+export const encodeCursor = (
+  item: Record<string, unknown>,
+  fields: SortField[]
+): string => {
+  const values = fields.map(({ field }) => {
+    const value = item[field] ?? null;
+    return value instanceof Date ? value.toISOString() : value;
+  });
+
+  return Buffer.from(
+    JSON.stringify({ k: getSortKey(fields), v: values })
+  ).toString("base64url");
+};
+
+/**
+ * Reads a cursor created by encodeCursor for the same order
+ *
+ * @returns Sort values of the item the cursor points after
+ * @throws ValidationError when malformed or made for another order
+ */
+export const decodeCursor = (
+  cursor: string,
+  fields: SortField[]
+): unknown[] => {
+  let payload: unknown;
+
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    payload = null;
+  }
+
+  const { k, v } = (payload ?? {}) as { k?: unknown; v?: unknown };
+
+  const isValid =
+    k === getSortKey(fields) && Array.isArray(v) && v.length === fields.length;
+
+  if (!isValid) {
+    throw new ValidationError("Validation failed", {
+      cursor: "Invalid cursor, start again from the first page",
+    });
+  }
+
+  return fields.map((field, index) => {
+    const value: unknown = v[index] ?? null;
+
+    if (value === null) {
+      return null;
+    }
+
+    const parsed = field.isDate ? new Date(String(value)) : value;
+
+    const isValidValue = field.isDate
+      ? !isNaN((parsed as Date).getTime())
+      : field.enumValues
+        ? field.enumValues.includes(String(value))
+        : ["string", "number", "boolean"].includes(typeof value);
+
+    if (!isValidValue) {
+      throw new ValidationError("Validation failed", {
+        cursor: "Invalid cursor",
+      });
+    }
+
+    return parsed;
+  });
+};
+
+/**
+ * Builds the condition "field comes after value"
+ *
+ * @returns The condition, or null when nothing can come after the value
+ */
+const getAfterCondition = (
+  { field, order, nullable, enumValues }: SortField,
+  value: unknown
+): Record<string, unknown> | null => {
+  // Nulls are sorted last, nothing comes after them
+  if (value === null) {
+    return null;
+  }
+
+  // Enums are compared through their database order (no gt/lt filters)
+  if (enumValues) {
+    const index = enumValues.indexOf(String(value));
+    const later =
+      order === "asc"
+        ? enumValues.slice(index + 1)
+        : enumValues.slice(0, index);
+
+    return later.length > 0 ? { [field]: { in: later } } : null;
+  }
+
+  const condition = { [field]: { [order === "asc" ? "gt" : "lt"]: value } };
+
+  return nullable ? { OR: [condition, { [field]: null }] } : condition;
+};
+
+/**
+ * Builds the where condition selecting the items after a cursor (keyset)
+ * (a > x) OR (a = x AND b > y) OR ... for sort fields a, b, ...
+ */
+export const getCursorWhere = <T>(cursor: string, fields: SortField[]): T => {
+  const values = decodeCursor(cursor, fields);
+
+  const branches = fields.flatMap((field, index) => {
+    const after = getAfterCondition(field, values[index]);
+
+    if (!after) {
+      return [];
+    }
+
+    const equal = fields
+      .slice(0, index)
+      .map((previous, i) => ({ [previous.field]: values[i] }));
+
+    return [{ AND: [...equal, after] }];
+  });
+
+  return { OR: branches } as T;
+};
+
+/**
+ * Cuts the items fetched with take: limit + 1 into a page
+ * The extra item only tells whether there is a next page
+ */
+export const toCursorPage = <T extends object>(
+  items: T[],
+  limit: number,
+  fields: SortField[],
+  getSortValues: (item: T) => Record<string, unknown> = (item) =>
+    item as Record<string, unknown>
+): CursorPage<T> => {
+  const hasMore = items.length > limit;
+  const pageItems = hasMore ? items.slice(0, limit) : items;
+  const last = pageItems[pageItems.length - 1];
+
+  return {
+    items: pageItems,
+    hasMore,
+    nextCursor:
+      hasMore && last ? encodeCursor(getSortValues(last), fields) : null,
+  };
+};
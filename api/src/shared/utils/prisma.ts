@@ -0,0 +1,25 @@
+import { Prisma } from "@prisma/client";
+
+/**
+ * Checks whether an error is a Prisma unique constraint violation (P2002)
+ *
+ * @param error - Error thrown by a Prisma query
+ * @param field - Optional field name that must be part of the violated constraint
+ * @returns True if the error is a matching unique constraint violation
+ */
+export const isUniqueConstraintError = (
+  error: unknown,
+  field?: string
+): error is Prisma.PrismaClientKnownRequestError => {
+  if (
+    !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+    error.code !== "P2002"
+  ) {
+    return false;
+  }
+
+  if (!field) return true;
+
+  const target = error.meta?.target;
+  return Array.isArray(target) && target.includes(field);
+};
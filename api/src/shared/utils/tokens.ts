@@ -0,0 +1,22 @@
+import { createHash, randomBytes } from "crypto";
+
+/**
+ * Generates a random opaque token (refresh tokens, one-time links, ...)
+ *
+ * @param bytes - Amount of random bytes (default 32)
+ * @returns URL-safe base64 token string
+ */
+export const generateOpaqueToken = (bytes: number = 32): string => {
+  return randomBytes(bytes).toString("base64url");
+};
+
+/**
+ * Hashes an opaque token for storage
+ * SHA-256 is enough here since tokens are long and random (unlike passwords)
+ *
+ * @param token - Raw token string
+ * @returns Hex-encoded SHA-256 hash
+ */
+export const hashToken = (token: string): string => {
+  return createHash("sha256").update(token).digest("hex");
+};